@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { collectExportedRoutes, exportedFileToRoute, resolveNextBuildDir } from './build-output';
+import { collectIndexableRoutes, submitToIndexNow } from './indexnow';
+
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [name, contents] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+    await fs.writeFile(path.join(dir, name), contents);
+  }
+}
+
+test('exportedFileToRoute maps index.html, foo.html and foo/index.html to routes', () => {
+  assert.equal(exportedFileToRoute('index.html'), '/');
+  assert.equal(exportedFileToRoute('about.html'), '/about');
+  assert.equal(exportedFileToRoute('blog/index.html'), '/blog');
+  assert.equal(exportedFileToRoute('blog/hello-world.html'), '/blog/hello-world');
+});
+
+test('collectExportedRoutes walks the export and infers trailingSlash from its layout', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-export-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const exportDir = path.join(dir, 'out');
+  await writeFiles(exportDir, {
+    'index.html': '<html></html>',
+    'about/index.html': '<html></html>',
+    'blog/index.html': '<html></html>',
+    'blog/hello/index.html': '<html></html>',
+    '404.html': '<html></html>',
+    '404/index.html': '<html></html>',
+    '_not-found/index.html': '<html></html>',
+    'google1234abcd.html': 'google-site-verification: google1234abcd.html',
+    '_next/static/abc123/_buildManifest.js': '',
+    'index.txt': 'rsc payload',
+  });
+
+  const exported = await collectExportedRoutes(exportDir, path.join(dir, '.next'));
+  assert.deepEqual(exported.routes, ['/', '/about', '/blog', '/blog/hello']);
+  assert.deepEqual(exported.routing, { basePath: '', trailingSlash: true });
+
+  const result = await submitToIndexNow({
+    baseUrl: 'https://example.com',
+    key: 'test-key',
+    nextBuildDir: path.join(dir, '.next'),
+    exportDir,
+    dryRun: true,
+  });
+  assert.deepEqual(result.urls, [
+    'https://example.com',
+    'https://example.com/about/',
+    'https://example.com/blog/',
+    'https://example.com/blog/hello/',
+  ]);
+
+  await assert.rejects(collectExportedRoutes(path.join(dir, 'missing')), /Static export directory not found/);
+});
+
+test('resolveNextBuildDir finds the manifests of a standalone build', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-standalone-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const standaloneDir = path.join(dir, '.next', 'standalone');
+  const standaloneBuildDir = path.join(standaloneDir, 'apps', 'web', '.next');
+  await writeFiles(standaloneBuildDir, {
+    'routes-manifest.json': JSON.stringify({ staticRoutes: [{ page: '/' }, { page: '/pricing' }] }),
+  });
+  await writeFiles(standaloneDir, { 'node_modules/pkg/.next/routes-manifest.json': '{}' });
+
+  assert.equal(await resolveNextBuildDir(path.join(dir, '.next')), standaloneBuildDir);
+  assert.equal(await resolveNextBuildDir(standaloneDir), standaloneBuildDir);
+  assert.equal(await resolveNextBuildDir(standaloneBuildDir), standaloneBuildDir);
+  assert.equal(await resolveNextBuildDir(path.join(dir, 'missing')), path.join(dir, 'missing'));
+  assert.deepEqual(await collectIndexableRoutes(standaloneDir), ['/', '/pricing']);
+});
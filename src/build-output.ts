@@ -0,0 +1,173 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { readRoutingConfig } from './routing';
+import type { NextRoutingConfig } from './routing';
+
+// Pages that Next.js always exports but that are never meant to be indexed.
+const EXCLUDED_EXPORT_ROUTES = new Set(['/404', '/500', '/_error', '/_not-found']);
+
+// Ownership verification pages that search consoles ask site owners to publish in `public/`.
+const VERIFICATION_PAGE_PATTERN = /^\/(google[0-9a-f]+|yandex_[0-9a-f]+)$/i;
+
+// Directories of a build that never contain a nested standalone build.
+const SKIPPED_BUILD_DIRECTORIES = new Set(['node_modules', 'cache', 'server', 'static', 'public']);
+
+// `.next/standalone/.next` sits two levels below the build directory, and monorepos nest it below the
+// path of the app (for example `.next/standalone/apps/web/.next`).
+const STANDALONE_SEARCH_DEPTH = 4;
+
+export interface ExportedRoutes {
+  /** Routes of the exported pages, without trailing slash */
+  routes: string[];
+  /**
+   * Routing settings used to build the public URLs: those of the build when its output is available, otherwise
+   * `trailingSlash` is inferred from the export layout (`foo/index.html` rather than `foo.html`).
+   */
+  routing: NextRoutingConfig;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function listHtmlFiles(exportDir: string, relativeDir = ''): Promise<string[]> {
+  const files: string[] = [];
+  const dirents = await fs.readdir(path.join(exportDir, relativeDir), { withFileTypes: true });
+  for (const dirent of dirents) {
+    const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) {
+      // `_next` holds the JavaScript, CSS and RSC payloads of the export, never pages.
+      if (relativePath === '_next') continue;
+      files.push(...(await listHtmlFiles(exportDir, relativePath)));
+    } else if (dirent.isFile() && dirent.name.endsWith('.html')) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Maps a file of a static export to the route it serves: `index.html` is `/`, and both `foo.html` and
+ * `foo/index.html` are `/foo`.
+ */
+export function exportedFileToRoute(relativePath: string): string {
+  const withoutExtension = relativePath.split(path.sep).join('/').replace(/\.html$/, '');
+  const route = `/${withoutExtension}`.replace(/\/index$/, '');
+  return route || '/';
+}
+
+/**
+ * Collects the routes of a static export (`output: 'export'`) by walking its HTML files. Error pages, `_next`
+ * assets, search console verification pages and unexpanded dynamic segments are left out.
+ */
+export async function collectExportedRoutes(exportDir: string, nextBuildDir = '.next'): Promise<ExportedRoutes> {
+  const resolvedExportDir = path.resolve(exportDir);
+  let files: string[];
+  try {
+    files = await listHtmlFiles(resolvedExportDir);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+      throw new Error(`Static export directory not found at ${resolvedExportDir}. Run \`next build\` first.`);
+    }
+    throw error;
+  }
+
+  const discoveredRoutes = new Set<string>();
+  let nestedPages = 0;
+  let flatPages = 0;
+  for (const file of files) {
+    const route = exportedFileToRoute(file);
+    if (
+      EXCLUDED_EXPORT_ROUTES.has(route) ||
+      VERIFICATION_PAGE_PATTERN.test(route) ||
+      route.split('/').some((segment) => segment.startsWith('_') || /[\[\]]/.test(segment))
+    ) {
+      continue;
+    }
+    if (route !== '/') {
+      if (file.endsWith('/index.html')) {
+        nestedPages += 1;
+      } else {
+        flatPages += 1;
+      }
+    }
+    discoveredRoutes.add(route);
+  }
+
+  const routes = Array.from(discoveredRoutes);
+  routes.sort((a, b) => (a === '/' ? -1 : b === '/' ? 1 : a.localeCompare(b)));
+
+  const resolvedBuildDir = await resolveNextBuildDir(nextBuildDir);
+  const routing = (await exists(path.join(resolvedBuildDir, 'routes-manifest.json')))
+    ? await readRoutingConfig(resolvedBuildDir)
+    : { basePath: '', trailingSlash: nestedPages > flatPages };
+  return { routes, routing };
+}
+
+/**
+ * Reads the build ID of a static export from its `_next/static/<buildId>/_buildManifest.js` folder, for exports
+ * deployed without the `.next` directory.
+ */
+export async function readExportBuildId(exportDir: string): Promise<string | undefined> {
+  const staticDir = path.join(path.resolve(exportDir), '_next', 'static');
+  let names: string[];
+  try {
+    names = await fs.readdir(staticDir);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+      return undefined;
+    }
+    throw error;
+  }
+  for (const name of names.sort()) {
+    if (await exists(path.join(staticDir, name, '_buildManifest.js'))) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the directory that holds the build manifests. `output: 'standalone'` deployments often ship only
+ * `.next/standalone`, whose own `.next` directory holds the manifests, so when `nextBuildDir` has no
+ * `routes-manifest.json` the nearest nested `.next` directory that has one is used instead.
+ */
+export async function resolveNextBuildDir(nextBuildDir = '.next'): Promise<string> {
+  const resolvedDir = path.resolve(nextBuildDir);
+  if (await exists(path.join(resolvedDir, 'routes-manifest.json'))) {
+    return resolvedDir;
+  }
+
+  // Breadth-first, so the shallowest build wins.
+  let level = [resolvedDir];
+  for (let depth = 0; depth < STANDALONE_SEARCH_DEPTH && level.length; depth += 1) {
+    const next: string[] = [];
+    for (const dir of level) {
+      let dirents;
+      try {
+        dirents = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') continue;
+        throw error;
+      }
+      for (const dirent of dirents) {
+        if (!dirent.isDirectory() || SKIPPED_BUILD_DIRECTORIES.has(dirent.name)) continue;
+        const candidate = path.join(dir, dirent.name);
+        if (dirent.name === '.next' && (await exists(path.join(candidate, 'routes-manifest.json')))) {
+          return candidate;
+        }
+        next.push(candidate);
+      }
+    }
+    level = next;
+  }
+  return resolvedDir;
+}
@@ -1,35 +1,115 @@
 #!/usr/bin/env node
-import { submitToIndexNow } from './indexnow';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { collectIndexableUrls, submitToIndexNow } from './indexnow';
 import { runInit } from './init';
-import { loadConfig } from './config';
-import { submitToGoogleIndexing } from './google-indexing';
+import { runRotateKey } from './rotate-key';
+import { loadConfig, resolveSites } from './config';
+import type { NextjsIndexingPackConfig, SiteConfig } from './config';
+import { createUrlFilter } from './url-patterns';
+import type { ExcludedUrl, ExclusionReason } from './html-inspection';
+import type { RoutingDecision } from './route-rules';
+import { getGoogleIndexingStatus, submitToGoogleIndexing } from './google-indexing';
+import type { GoogleIndexingStatus, GoogleNotificationType } from './google-indexing';
+import { readSitemap } from './sitemap';
+import { loadDynamicRouteResolver } from './dynamic-routes';
+import type { DynamicRouteResolver } from './dynamic-routes';
+import { generateSitemap } from './generate-sitemap';
+import { verifySetup } from './verify';
+import type { RetryPolicy } from './retry';
+import type { GoogleUrlPriority } from './google-quota';
+import { GOOGLE_SERVICE_ACCOUNT_JSON_ENV } from './google-auth';
+import type { GoogleCredentialsOptions } from './google-auth';
+import { enqueueUrls, flushOutbox, readOutbox } from './outbox';
+import type { OutboxItem } from './outbox';
+import type { SubmissionEngine } from './state';
+import { FAIL_ON_POLICIES, REPORT_FORMATS, formatReport, shouldFailReport, summarizeReport } from './report';
+import type { FailOnPolicy, ReportFormat, SiteSubmissionReport, SubmissionReport } from './report';
 
 interface CliOptions {
   baseUrl?: string;
   key?: string;
   nextBuildDir?: string;
+  exportDir?: string;
   dryRun?: boolean;
   googleServiceAccount?: string;
   googleNotificationType?: string;
   urls?: string;
   google?: boolean;
   indexnow?: boolean;
+  changedOnly?: boolean;
+  notifyRemoved?: boolean;
+  stateFile?: string;
+  dynamicRouteResolver?: string;
+  sitemap?: string;
+  sitemapSince?: string;
+  outDir?: string;
+  maxAttempts?: string;
+  googleDailyQuota?: string;
+  googlePriority?: string;
+  googleBatchSize?: string;
+  format?: string;
+  googleTokenCache?: string;
+  keyLocation?: string;
+  publicDir?: string;
+  outbox?: string;
+  enqueueFailed?: boolean;
+  reportFile?: string;
+  failOn?: string;
+  config?: string;
+  site?: string;
+  inspectHtml?: boolean;
+  applyRoutingRules?: boolean;
+  followRedirects?: boolean;
+  respectRobotsTxt?: boolean;
 }
 
 function printUsage(): void {
   console.log(`Usage: nextjs-indexing-pack [command] [options]\n\n` +
     `Commands:\n` +
     `  init                   Interactive wizard that prepares your project for IndexNow.\n` +
-    `  submit                 Submit URLs immediately using the flags below (default when omitted).\n\n` +
+    `  submit                 Submit URLs immediately using the flags below (default when omitted).\n` +
+    `  sitemap                Write sitemap.xml for the discovered routes (use --out-dir to choose the directory).\n` +
+    `  rotate-key             Generate a new IndexNow key and keep the old key file until the new one is verified.\n` +
+    `  verify                 Check that the site, the IndexNow key file and the Google credentials are set up correctly.\n` +
+    `  status                 Show the latest notifications Google received for each URL (use --format json for JSON).\n` +
+    `  flush                  Retry the URLs in the outbox and remove the ones that were delivered.\n\n` +
     `Options:\n` +
     `  --base-url <url>        Fully qualified origin of your deployed Next.js site (defaults to config).\n` +
     `  --key <key>             IndexNow key value (defaults to INDEXNOW_KEY env var).\n` +
-    `  --next-build-dir <dir>  Location of the Next.js build output (defaults to .next).\n` +
+    `  --key-location <url>    URL of the IndexNow key file (defaults to <base-url>/<key>.txt).\n` +
+    `  --next-build-dir <dir>  Location of the Next.js build output (defaults to .next, standalone builds are detected).\n` +
+    `  --export-dir <dir>      Discover pages from the HTML files of a static export (output: 'export') such as out.\n` +
+    `  --sitemap <path>        Read URLs from a local sitemap.xml, sitemap index or built sitemap instead of the build manifests.\n` +
+    `  --sitemap-since <date>  Only submit sitemap URLs with a lastmod on or after the date (or "last-run").\n` +
+    `  --dynamic-route-resolver <path>  Module that returns the values for dynamic routes such as /blog/[slug].\n` +
+    `  --public-dir <dir>      Directory the rotate-key command writes the key file to (defaults to public).\n` +
+    `  --out-dir <dir>         Directory the sitemap command writes to (defaults to public, use out for static exports).\n` +
     `  -u, --urls <list>       Comma-separated list of fully qualified URLs to submit manually.\n` +
     `  -g, --google            Submit only to the Google Indexing API.\n` +
     `  -i, --indexnow          Submit only to IndexNow-compatible endpoints.\n` +
     `  --google-service-account <path>  Path to Google service account JSON credentials.\n` +
+    `  --google-token-cache <path> Cache Google access tokens in this file between runs.\n` +
     `  --google-notification-type <type> Notification type for Google Indexing (URL_UPDATED or URL_DELETED).\n` +
+    `  --google-daily-quota <n> Google publish requests per rolling day before URLs are queued for the next run (defaults to 200, "off" disables).\n` +
+    `  --google-priority <order> Send the most recently modified pages to Google first (newest).\n` +
+    `  --google-batch-size <n> Notifications per Google batch request (defaults to 100, use 1 to disable batching).\n` +
+    `  --max-attempts <n>      Attempts per request before giving up on 429/5xx responses or network errors (defaults to 3).\n` +
+    `  --changed-only          Submit only routes that are new or whose built output changed since the last run.\n` +
+    `  --notify-removed        Notify search engines about routes that disappeared since the previous build (on with --changed-only).\n` +
+    `  --no-notify-removed     Do not notify search engines about removed routes when --changed-only is set.\n` +
+    `  --no-inspect-html       Submit discovered pages without skipping noindex pages or applying canonical URLs.\n` +
+    `  --no-routing-rules      Submit discovered routes without applying the redirects and rewrites of the build.\n` +
+    `  --follow-redirects      Also submit the destination of each permanently redirected route.\n` +
+    `  --ignore-robots-txt     Also submit URLs that the site's robots.txt disallows for search engine crawlers.\n` +
+    `  --state-file <path>     Location of the submission state file (defaults to .nextjs-indexing-pack/state.json).\n` +
+    `  --enqueue-failed        Add URLs that could not be delivered to the outbox so "flush" can retry them.\n` +
+    `  --outbox <path>         Location of the outbox file (defaults to .nextjs-indexing-pack/outbox.json).\n` +
+    `  --format <format>       Output format: text, json, ndjson, markdown or junit for submit; table or json for status.\n` +
+    `  --report-file <path>    Also write the submission report to a file (in --format, JSON for text).\n` +
+    `  --fail-on <policy>      Exit with code 1 when any, all (default) or none of the submission requests fail.\n` +
+    `  --config <path>         Config file to load instead of nextjs-indexing-pack.config.{ts,mjs,js,json}.\n` +
+    `  --site <name>           Only run for this site of the "sites" config (submit runs for every site by default).\n` +
     `  --dry-run               Collect URLs without submitting them to IndexNow.\n` +
     `  --help                  Show this message.\n`);
 }
@@ -77,6 +157,46 @@ function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === '--changed-only') {
+      options.changedOnly = true;
+      continue;
+    }
+
+    if (arg === '--notify-removed') {
+      options.notifyRemoved = true;
+      continue;
+    }
+
+    if (arg === '--no-notify-removed') {
+      options.notifyRemoved = false;
+      continue;
+    }
+
+    if (arg === '--enqueue-failed') {
+      options.enqueueFailed = true;
+      continue;
+    }
+
+    if (arg === '--no-inspect-html') {
+      options.inspectHtml = false;
+      continue;
+    }
+
+    if (arg === '--no-routing-rules') {
+      options.applyRoutingRules = false;
+      continue;
+    }
+
+    if (arg === '--follow-redirects') {
+      options.followRedirects = true;
+      continue;
+    }
+
+    if (arg === '--ignore-robots-txt') {
+      options.respectRobotsTxt = false;
+      continue;
+    }
+
     if (!arg.startsWith('--')) {
       throw new Error(`Unexpected argument: ${arg}`);
     }
@@ -94,113 +214,798 @@ function parseArgs(argv: string[]): CliOptions {
   return options;
 }
 
-async function main(): Promise<void> {
-  try {
-    const argv = process.argv.slice(2);
+async function runSitemapCommand(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  const config = await loadSiteConfig(options, 'sitemap');
+  const baseUrl = options.baseUrl ?? config?.baseUrl;
+  if (!baseUrl) {
+    throw new Error('Missing base URL. Pass --base-url <url> or run "npx nextjs-indexing-pack init" to create a config file.');
+  }
 
-    if (argv[0] === 'init') {
-      if (argv.includes('--help')) {
-        printUsage();
-        return;
-      }
-      await runInit();
-      return;
-    }
+  const result = await generateSitemap({
+    baseUrl,
+    nextBuildDir: options.nextBuildDir ?? config?.nextBuildDir,
+    exportDir: options.exportDir ?? config?.exportDir,
+    outDir: options.outDir,
+    dryRun: options.dryRun,
+    dynamicRouteResolver: resolveDynamicRouteResolver(options, config),
+    inspectHtml: options.inspectHtml ?? config?.inspectHtml,
+    applyRoutingRules: options.applyRoutingRules ?? config?.applyRoutingRules,
+    followRedirects: options.followRedirects ?? config?.followRedirects,
+    urlFilter: config ? createUrlFilter(config) : undefined,
+  });
+
+  const summary = `${result.urls.length} URL${result.urls.length === 1 ? '' : 's'} in ${result.files.length} file${
+    result.files.length === 1 ? '' : 's'
+  }`;
+  console.log(options.dryRun ? `Sitemap dry run: ${summary}.` : `Wrote sitemap with ${summary}.`);
+  for (const file of result.files) {
+    console.log(`- ${path.relative(process.cwd(), file) || file}`);
+  }
+}
+
+/**
+ * The resolver passed with --dynamic-route-resolver wins over the one in the config file, which may be a module
+ * path or, in executable config files, the resolver itself.
+ */
+function resolveDynamicRouteResolver(
+  options: CliOptions,
+  config: NextjsIndexingPackConfig | undefined,
+): DynamicRouteResolver | undefined {
+  const resolver = options.dynamicRouteResolver ?? config?.dynamicRouteResolver;
+  return typeof resolver === 'string' ? loadDynamicRouteResolver(resolver) : resolver;
+}
+
+function parseMaxAttempts(value: string | undefined, fallback?: number): RetryPolicy | undefined {
+  if (value === undefined) {
+    return fallback === undefined ? undefined : { maxAttempts: fallback };
+  }
+  const maxAttempts = Number(value);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error('Invalid value for --max-attempts. Expected a positive integer.');
+  }
+  return { maxAttempts };
+}
+
+function parseGoogleDailyQuota(value: string | undefined, fallback?: number | false): number | false | undefined {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (value === 'off') {
+    return false;
+  }
+  const dailyQuota = Number(value);
+  if (!Number.isInteger(dailyQuota) || dailyQuota < 1) {
+    throw new Error('Invalid value for --google-daily-quota. Expected a positive integer or "off".');
+  }
+  return dailyQuota;
+}
+
+/** Engines a submission uses: those selected with -g and -i, otherwise those the config does not disable. */
+function getSiteEngines(options: CliOptions, config: NextjsIndexingPackConfig | undefined): SubmissionEngine[] {
+  const engineSelected = options.google === true || options.indexnow === true;
+  const engines: SubmissionEngine[] = [];
+  if (engineSelected ? options.indexnow : config?.indexNow?.enabled !== false) {
+    engines.push('indexnow');
+  }
+  if (engineSelected ? options.google : config?.google?.enabled !== false) {
+    engines.push('google');
+  }
+  return engines;
+}
+
+function parseEngines(options: CliOptions): SubmissionEngine[] | undefined {
+  if (options.google && !options.indexnow) {
+    return ['google'];
+  }
+  if (options.indexnow && !options.google) {
+    return ['indexnow'];
+  }
+  return undefined;
+}
+
+/**
+ * Returns whether `config` is a site of a multi-site config. The environment can only hold one set of keys, so
+ * the keys and credentials of a site take precedence over it.
+ */
+function isSiteConfig(config: NextjsIndexingPackConfig | SiteConfig | undefined): config is SiteConfig {
+  return typeof (config as SiteConfig | undefined)?.name === 'string';
+}
+
+/**
+ * Loads the config of commands that act on a single site: the site selected with --site, the only site of the
+ * config, or the config itself when it has no `sites`.
+ */
+async function loadSiteConfig(
+  options: CliOptions,
+  command: string,
+): Promise<NextjsIndexingPackConfig | SiteConfig | undefined> {
+  const config = await loadConfig(options.config);
+  const sites = resolveSites(config, options.site);
+  if (sites.length > 1) {
+    throw new Error(
+      `The ${command} command runs for a single site. Pass --site <name> with one of ${sites
+        .map((site) => site.name)
+        .join(', ')}.`,
+    );
+  }
+  return sites[0] ?? config;
+}
 
-    const submitArgs = argv[0] === 'submit' ? argv.slice(1) : argv;
+/** `--key` wins, then INDEXNOW_KEY and finally the config file, whose site keys come before INDEXNOW_KEY. */
+function resolveIndexNowKey(
+  options: CliOptions,
+  config: NextjsIndexingPackConfig | SiteConfig | undefined,
+): string | undefined {
+  if (isSiteConfig(config)) {
+    return options.key ?? config.indexNow?.key ?? process.env.INDEXNOW_KEY;
+  }
+  return options.key ?? process.env.INDEXNOW_KEY ?? config?.indexNow?.key;
+}
 
-    const config = await loadConfig();
-    const options = parseArgs(submitArgs);
-    const { nextBuildDir, dryRun } = options;
+/**
+ * Credentials passed on the command line win, then GOOGLE_SERVICE_ACCOUNT_JSON, then
+ * GOOGLE_APPLICATION_CREDENTIALS and finally the config file. The service account of a site comes before both
+ * environment variables.
+ */
+function resolveGoogleCredentials(
+  options: CliOptions,
+  config: NextjsIndexingPackConfig | SiteConfig | undefined,
+): GoogleCredentialsOptions | undefined {
+  const tokenCacheFile = options.googleTokenCache ?? config?.google?.tokenCacheFile;
+  if (options.googleServiceAccount) {
+    return { serviceAccountPath: options.googleServiceAccount, tokenCacheFile };
+  }
+  if (isSiteConfig(config) && config.googleServiceAccountPath) {
+    return { serviceAccountPath: config.googleServiceAccountPath, tokenCacheFile };
+  }
+  const serviceAccountJson = process.env[GOOGLE_SERVICE_ACCOUNT_JSON_ENV];
+  if (serviceAccountJson) {
+    return { serviceAccount: serviceAccountJson, tokenCacheFile };
+  }
+  const serviceAccountPath = process.env.GOOGLE_APPLICATION_CREDENTIALS ?? config?.googleServiceAccountPath;
+  return serviceAccountPath ? { serviceAccountPath, tokenCacheFile } : undefined;
+}
+
+function printStatusTable(statuses: GoogleIndexingStatus[]): void {
+  const rows = statuses.map((status) => [
+    status.url,
+    status.ok ? status.latestUpdate ?? 'never' : `error (status ${status.status})`,
+    status.ok ? status.latestRemove ?? 'never' : status.error ?? '',
+  ]);
+  const header = ['URL', 'Latest update', 'Latest removal'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  console.log(formatRow(header));
+  console.log(formatRow(widths.map((width) => '-'.repeat(width))));
+  for (const row of rows) {
+    console.log(formatRow(row));
+  }
+}
+
+async function runStatusCommand(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  const config = await loadSiteConfig(options, 'status');
+  const format = options.format ?? 'table';
+  if (format !== 'table' && format !== 'json') {
+    throw new Error('Invalid value for --format. Expected table or json.');
+  }
+  const credentials = resolveGoogleCredentials(options, config);
+  if (!credentials) {
+    throw new Error(
+      'Missing Google service account credentials. Pass --google-service-account <path> or set GOOGLE_SERVICE_ACCOUNT_JSON or GOOGLE_APPLICATION_CREDENTIALS.',
+    );
+  }
+
+  let urls: string[];
+  if (options.urls) {
+    urls = options.urls.split(',').map((value) => value.trim()).filter((value) => value.length > 0);
+  } else if (options.sitemap) {
+    urls = (await readSitemap(options.sitemap)).map((entry) => entry.loc);
+  } else {
     const baseUrl = options.baseUrl ?? config?.baseUrl;
-    const key = options.key ?? process.env.INDEXNOW_KEY;
-    const googleServiceAccount =
-      options.googleServiceAccount ?? process.env.GOOGLE_APPLICATION_CREDENTIALS ?? config?.googleServiceAccountPath;
-
-    let googleNotificationType: 'URL_UPDATED' | 'URL_DELETED' | undefined;
-    if (options.googleNotificationType) {
-      if (options.googleNotificationType === 'URL_UPDATED' || options.googleNotificationType === 'URL_DELETED') {
-        googleNotificationType = options.googleNotificationType;
-      } else {
-        throw new Error('Invalid value for --google-notification-type. Expected URL_UPDATED or URL_DELETED.');
+    if (!baseUrl) {
+      throw new Error('Missing base URL. Pass --base-url <url> or run "npx nextjs-indexing-pack init" to create a config file.');
+    }
+    const routeUrls = await collectIndexableUrls(baseUrl, options.nextBuildDir ?? config?.nextBuildDir, {
+      dynamicRouteResolver: resolveDynamicRouteResolver(options, config),
+      exportDir: options.exportDir ?? config?.exportDir,
+      inspectHtml: options.inspectHtml ?? config?.inspectHtml,
+      applyRoutingRules: options.applyRoutingRules ?? config?.applyRoutingRules,
+      followRedirects: options.followRedirects ?? config?.followRedirects,
+    });
+    urls = routeUrls.map((entry) => entry.url);
+  }
+  const urlFilter = config ? createUrlFilter(config) : undefined;
+  if (urlFilter) {
+    urls = urls.filter(urlFilter);
+  }
+
+  const statuses = await getGoogleIndexingStatus(urls, {
+    ...credentials,
+    retry: parseMaxAttempts(options.maxAttempts, config?.maxAttempts),
+  });
+  if (format === 'json') {
+    console.log(JSON.stringify(statuses, null, 2));
+  } else if (statuses.length) {
+    printStatusTable(statuses);
+  } else {
+    console.log('No URLs to check.');
+  }
+  if (statuses.some((status) => !status.ok)) {
+    process.exitCode = 1;
+  }
+}
+
+async function runVerifyCommand(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  const config = await loadSiteConfig(options, 'verify');
+  const baseUrl = options.baseUrl ?? config?.baseUrl;
+  if (!baseUrl) {
+    throw new Error('Missing base URL. Pass --base-url <url> or run "npx nextjs-indexing-pack init" to create a config file.');
+  }
+
+  const result = await verifySetup({
+    baseUrl,
+    key: resolveIndexNowKey(options, config),
+    keyLocation: options.keyLocation ?? config?.indexNow?.keyLocation,
+    nextBuildDir: options.nextBuildDir ?? config?.nextBuildDir,
+    ...resolveGoogleCredentials(options, config),
+    google: options.indexnow || (!options.google && config?.google?.enabled === false) ? false : undefined,
+    retry: parseMaxAttempts(options.maxAttempts, config?.maxAttempts),
+  });
+
+  for (const check of result.checks) {
+    console.log(`${check.status.toUpperCase()}  ${check.name}: ${check.message}`);
+    if (check.fix && check.status === 'fail') {
+      console.log(`      Fix: ${check.fix}`);
+    }
+  }
+  const failed = result.checks.filter((check) => check.status === 'fail').length;
+  console.log(failed ? `\n${failed} check${failed === 1 ? '' : 's'} failed.` : '\nAll checks passed.');
+  if (!result.ok) {
+    process.exitCode = 1;
+  }
+}
+
+function describeOutboxItem(item: OutboxItem): string {
+  const details = [item.type, `${item.attempts} failed attempt${item.attempts === 1 ? '' : 's'}`];
+  if (item.lastError) {
+    details.push(`last error: ${item.lastError}`);
+  }
+  return `- [${item.engine}] ${item.url} (${details.join(', ')})`;
+}
+
+async function runFlushCommand(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  const config = await loadSiteConfig(options, 'flush');
+  const engines = parseEngines(options);
+  const site = isSiteConfig(config) ? config.name : undefined;
+
+  if (options.dryRun) {
+    const items = (await readOutbox(options.outbox)).filter(
+      (item) => item.site === site && (!engines || engines.includes(item.engine)),
+    );
+    console.log(`Outbox dry run: ${items.length} pending item${items.length === 1 ? '' : 's'}.`);
+    for (const item of items) {
+      console.log(describeOutboxItem(item));
+    }
+    return;
+  }
+
+  const baseUrl = options.baseUrl ?? config?.baseUrl;
+  if (!baseUrl) {
+    throw new Error('Missing base URL. Pass --base-url <url> or run "npx nextjs-indexing-pack init" to create a config file.');
+  }
+  const result = await flushOutbox({
+    baseUrl,
+    key: resolveIndexNowKey(options, config),
+    keyLocation: options.keyLocation ?? config?.indexNow?.keyLocation,
+    engines,
+    site,
+    outboxPath: options.outbox,
+    ...resolveGoogleCredentials(options, config),
+    retry: parseMaxAttempts(options.maxAttempts, config?.maxAttempts),
+  });
+
+  console.log(`Delivered ${result.delivered.length} outbox item${result.delivered.length === 1 ? '' : 's'}.`);
+  for (const item of result.delivered) {
+    console.log(`- [${item.engine}] ${item.url}`);
+  }
+  if (result.failed.length) {
+    console.log(`Failed to deliver ${result.failed.length} item${result.failed.length === 1 ? '' : 's'}:`);
+    for (const item of result.failed) {
+      console.log(describeOutboxItem(item));
+    }
+  }
+  if (result.deferred.length) {
+    console.log(
+      `Deferred ${result.deferred.length} item${result.deferred.length === 1 ? '' : 's'} until the Google Indexing API quota resets.`,
+    );
+  }
+  console.log(`${result.remaining} item${result.remaining === 1 ? '' : 's'} left in the outbox.`);
+  if (result.failed.length) {
+    process.exitCode = 1;
+  }
+}
+
+async function enqueueFailed(
+  engine: SubmissionEngine,
+  entries: Array<{ url: string; type: 'updated' | 'deleted' }>,
+  outboxPath: string | undefined,
+  site: string | undefined,
+  error: string | undefined,
+  log: (message: string) => void,
+): Promise<void> {
+  if (!entries.length) {
+    return;
+  }
+  await enqueueUrls(entries, { engines: [engine], outboxPath, site, error });
+  log(
+    `Added ${entries.length} URL${entries.length === 1 ? '' : 's'} to the outbox for ${
+      engine === 'google' ? 'the Google Indexing API' : 'IndexNow'
+    } (run "npx nextjs-indexing-pack flush" to retry).`,
+  );
+}
+
+function describeRoutingDecision(decision: RoutingDecision): string {
+  switch (decision.reason) {
+    case 'permanent-redirect':
+      return `- ${decision.route} (skipped, permanent redirect ${decision.statusCode} to ${decision.destination})`;
+    case 'redirect-destination':
+      return `- ${decision.route} (added, destination of the permanent redirect from ${decision.source})`;
+    case 'rewrite':
+      return `- ${decision.route} (added in place of ${decision.replaces}, rewritten to ${decision.destination})`;
+  }
+}
+
+function logRoutingDecisions(
+  decisions: RoutingDecision[] | undefined,
+  engineLabel: string,
+  log: (message: string) => void,
+): void {
+  if (!decisions?.length) {
+    return;
+  }
+  log(
+    `Applied redirects and rewrites to ${decisions.length} route${decisions.length === 1 ? '' : 's'} for ${engineLabel}:`,
+  );
+  for (const decision of decisions) {
+    log(describeRoutingDecision(decision));
+  }
+}
+
+const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  noindex: 'marked noindex',
+  canonicalized: 'submitted as its canonical URL',
+  'external-canonical': 'canonical URL on another site',
+};
+
+function logExcludedUrls(
+  excludedUrls: ExcludedUrl[] | undefined,
+  engineLabel: string,
+  log: (message: string) => void,
+): void {
+  if (!excludedUrls?.length) {
+    return;
+  }
+  log(
+    `Excluded ${excludedUrls.length} URL${excludedUrls.length === 1 ? '' : 's'} for ${engineLabel} after inspecting the built HTML:`,
+  );
+  for (const excluded of excludedUrls) {
+    const canonical = excluded.canonical ? ` → ${excluded.canonical}` : '';
+    log(`- ${excluded.url} (${EXCLUSION_LABELS[excluded.reason]}${canonical})`);
+  }
+}
+
+function logDisallowedUrls(
+  disallowedUrls: string[] | undefined,
+  engineLabel: string,
+  log: (message: string) => void,
+): void {
+  if (!disallowedUrls?.length) {
+    return;
+  }
+  log(
+    `Skipped ${disallowedUrls.length} URL${disallowedUrls.length === 1 ? '' : 's'} for ${engineLabel} disallowed by robots.txt:`,
+  );
+  for (const disallowedUrl of disallowedUrls) {
+    log(`- ${disallowedUrl}`);
+  }
+}
+
+async function runSubmitCommand(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  const config = await loadConfig(options.config);
+  const sites = resolveSites(config, options.site);
+  if (sites.length > 1 && (options.baseUrl || options.key || options.keyLocation || options.urls || options.sitemap)) {
+    throw new Error(
+      'Pass --site <name> to use --base-url, --key, --key-location, --urls or --sitemap with multiple sites.',
+    );
+  }
+
+  const format = (options.format ?? 'text') as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new Error(`Invalid value for --format. Expected ${REPORT_FORMATS.join(', ')}.`);
+  }
+  const failOn = (options.failOn ?? 'all') as FailOnPolicy;
+  if (!FAIL_ON_POLICIES.includes(failOn)) {
+    throw new Error(`Invalid value for --fail-on. Expected ${FAIL_ON_POLICIES.join(', ')}.`);
+  }
+  // Machine-readable formats own stdout, so progress messages go to stderr.
+  const log = format === 'text' ? console.log : console.error;
+  const report: SubmissionReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    dryRun: options.dryRun === true,
+    errors: [],
+    skipped: [],
+  };
+
+  if (sites.length) {
+    report.sites = [];
+    for (const site of sites) {
+      const siteReport: SiteSubmissionReport = { site: site.name, errors: [], skipped: [] };
+      report.sites.push(siteReport);
+      if (sites.length > 1) {
+        log(`${site === sites[0] ? '' : '\n'}Site ${site.name}:`);
+      }
+      try {
+        await submitSite(options, site, siteReport, log);
+      } catch (error: any) {
+        // A site that cannot be submitted at all fails every engine it would have used; the other sites still run.
+        const message = error?.message ?? String(error);
+        console.warn(`Skipped site ${site.name} (${message}).`);
+        for (const engine of getSiteEngines(options, site)) {
+          siteReport.errors.push({ engine, message });
+        }
       }
     }
+  } else {
+    await submitSite(options, config, report, log);
+  }
 
-    if (!baseUrl) {
-      throw new Error('Missing base URL. Pass --base-url <url> or run "npx nextjs-indexing-pack init" to create a config file.');
+  report.finishedAt = new Date().toISOString();
+  if (format !== 'text') {
+    process.stdout.write(formatReport(report, format));
+  }
+  if (options.reportFile) {
+    const reportPath = path.resolve(options.reportFile);
+    await fs.mkdir(path.dirname(reportPath), { recursive: true });
+    await fs.writeFile(reportPath, formatReport(report, format === 'text' ? 'json' : format), 'utf8');
+    log(`Wrote the submission report to ${path.relative(process.cwd(), reportPath)}.`);
+  }
+  if (shouldFailReport(report, failOn)) {
+    const { failed, total } = summarizeReport(report);
+    console.error(`${failed} of ${total} submission request${total === 1 ? '' : 's'} failed (--fail-on ${failOn}).`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Submits the routes of one site and records the results in `report`, which is the whole report for configs
+ * without `sites` and the entry of the site otherwise.
+ */
+async function submitSite(
+  options: CliOptions,
+  config: NextjsIndexingPackConfig | SiteConfig | undefined,
+  report: Omit<SiteSubmissionReport, 'site'>,
+  log: (message: string) => void,
+): Promise<void> {
+  const { dryRun, enqueueFailed: shouldEnqueue } = options;
+  const baseUrl = options.baseUrl ?? config?.baseUrl;
+  const key = resolveIndexNowKey(options, config);
+  const keyLocation = options.keyLocation ?? config?.indexNow?.keyLocation;
+  const nextBuildDir = options.nextBuildDir ?? config?.nextBuildDir;
+  const changedOnly = options.changedOnly ?? config?.changedOnly;
+  const notifyRemoved = options.notifyRemoved ?? config?.notifyRemoved;
+  const stateFile = options.stateFile ?? config?.stateFile;
+  const exportDir = options.exportDir ?? config?.exportDir;
+  const inspectHtml = options.inspectHtml ?? config?.inspectHtml;
+  const applyRoutingRules = options.applyRoutingRules ?? config?.applyRoutingRules;
+  const followRedirects = options.followRedirects ?? config?.followRedirects;
+  const respectRobotsTxt = options.respectRobotsTxt ?? config?.respectRobotsTxt;
+  const urlFilter = config ? createUrlFilter(config) : undefined;
+  const googleCredentials = resolveGoogleCredentials(options, config);
+  const site = isSiteConfig(config) ? config.name : undefined;
+
+  let googleNotificationType: GoogleNotificationType | undefined = config?.google?.notificationType;
+  if (options.googleNotificationType) {
+    if (options.googleNotificationType === 'URL_UPDATED' || options.googleNotificationType === 'URL_DELETED') {
+      googleNotificationType = options.googleNotificationType;
+    } else {
+      throw new Error('Invalid value for --google-notification-type. Expected URL_UPDATED or URL_DELETED.');
+    }
+  }
+
+  if (!baseUrl) {
+    throw new Error('Missing base URL. Pass --base-url <url> or run "npx nextjs-indexing-pack init" to create a config file.');
+  }
+
+  const dynamicRouteResolver = resolveDynamicRouteResolver(options, config);
+
+  const retry = parseMaxAttempts(options.maxAttempts, config?.maxAttempts);
+
+  const googleDailyQuota = parseGoogleDailyQuota(options.googleDailyQuota, config?.google?.dailyQuota);
+
+  let googlePriority: GoogleUrlPriority | undefined = config?.google?.priority;
+  if (options.googlePriority) {
+    if (options.googlePriority !== 'newest') {
+      throw new Error('Invalid value for --google-priority. Expected newest.');
     }
-    if (!key) {
-      throw new Error('Missing IndexNow key. Pass --key <value> or set INDEXNOW_KEY in your environment.');
+    googlePriority = options.googlePriority;
+  }
+
+  let googleBatchSize = config?.google?.batchSize;
+  if (options.googleBatchSize !== undefined) {
+    googleBatchSize = Number(options.googleBatchSize);
+    if (!Number.isInteger(googleBatchSize) || googleBatchSize < 1) {
+      throw new Error('Invalid value for --google-batch-size. Expected a positive integer.');
     }
+  }
 
-    const urlList = options.urls
-      ? options.urls.split(',').map((value) => value.trim()).filter((value) => value.length > 0)
-      : undefined;
+  const urlList = options.urls
+    ? options.urls.split(',').map((value) => value.trim()).filter((value) => value.length > 0)
+    : undefined;
 
-    const googleRequested = options.google === true;
-    const indexNowRequested = options.indexnow === true;
+  const googleRequested = options.google === true;
+  const indexNowRequested = options.indexnow === true;
 
-    const shouldSubmitIndexNow = indexNowRequested || (!googleRequested && !indexNowRequested);
-    const shouldSubmitGoogle = googleRequested || (!googleRequested && !indexNowRequested);
+  // -g and -i select engines explicitly; otherwise the `enabled` flags in the config file apply.
+  const engineSelected = googleRequested || indexNowRequested;
+  const shouldSubmitIndexNow = indexNowRequested || (!engineSelected && config?.indexNow?.enabled !== false);
+  const shouldSubmitGoogle = googleRequested || (!engineSelected && config?.google?.enabled !== false);
+  if (!engineSelected && config?.indexNow?.enabled === false) {
+    log('Skipped IndexNow submission (disabled in the config file).');
+    report.skipped.push({ engine: 'indexnow', reason: 'disabled in the config file' });
+  }
+  if (!engineSelected && config?.google?.enabled === false) {
+    log('Skipped Google Indexing submission (disabled in the config file).');
+    report.skipped.push({ engine: 'google', reason: 'disabled in the config file' });
+  }
 
-    if (shouldSubmitIndexNow) {
+  if (shouldSubmitIndexNow) {
+    try {
+      if (!key) {
+        throw new Error('Missing IndexNow key. Pass --key <value> or set INDEXNOW_KEY in your environment.');
+      }
       const indexNowResult = await submitToIndexNow({
         baseUrl,
         key,
+        keyLocation,
+        endpoints: config?.indexNow?.endpoints,
+        batchSize: config?.indexNow?.batchSize,
+        urlFilter,
         nextBuildDir,
+        exportDir,
         dryRun,
         urls: urlList,
+        sitemap: options.sitemap,
+        sitemapModifiedSince: options.sitemapSince,
+        dynamicRouteResolver,
+        inspectHtml,
+        applyRoutingRules,
+        followRedirects,
+        respectRobotsTxt,
+        retry,
+        changedOnly,
+        notifyRemoved,
+        stateFile,
       });
+      report.indexNow = indexNowResult;
 
+      logRoutingDecisions(indexNowResult.routingDecisions, 'IndexNow', log);
+      logExcludedUrls(indexNowResult.excludedUrls, 'IndexNow', log);
+      logDisallowedUrls(indexNowResult.disallowedUrls, 'IndexNow', log);
+      if (indexNowResult.unchangedUrls?.length) {
+        log(
+          `Skipped ${indexNowResult.unchangedUrls.length} unchanged URL${indexNowResult.unchangedUrls.length === 1 ? '' : 's'} for IndexNow.`,
+        );
+      }
+      if (indexNowResult.removedUrls?.length) {
+        log(
+          `Detected ${indexNowResult.removedUrls.length} removed URL${indexNowResult.removedUrls.length === 1 ? '' : 's'} for IndexNow:`,
+        );
+        for (const removedUrl of indexNowResult.removedUrls) {
+          log(`- ${removedUrl}`);
+        }
+      }
       if (dryRun) {
-        console.log(`Dry run: discovered ${indexNowResult.urls.length} URL${indexNowResult.urls.length === 1 ? '' : 's'}.`);
+        log(`Dry run: discovered ${indexNowResult.urls.length} URL${indexNowResult.urls.length === 1 ? '' : 's'}.`);
       } else {
-        console.log(
+        log(
           `Submitted ${indexNowResult.urls.length} URL${indexNowResult.urls.length === 1 ? '' : 's'} to IndexNow-compatible endpoints.`,
         );
-        for (const [endpoint, response] of Object.entries(indexNowResult.responses)) {
-          console.log(
-            `- ${endpoint}: ${response.ok ? 'ok' : 'failed'} (status ${response.status}${
+        for (const response of indexNowResult.responses) {
+          const batchLabel = response.batchCount > 1 ? `, batch ${response.batch}/${response.batchCount}` : '';
+          log(
+            `- ${response.endpoint} [${response.host}${batchLabel}, ${response.urlCount} URL${response.urlCount === 1 ? '' : 's'}]: ${
+              response.ok ? 'ok' : 'failed'
+            } (status ${response.status}${response.attempts > 1 ? `, ${response.attempts} attempts` : ''}${
               response.body ? `, body: ${response.body}` : ''
             })`,
           );
         }
+        if (shouldEnqueue) {
+          const removed = new Set(indexNowResult.removedUrls ?? []);
+          await enqueueFailed(
+            'indexnow',
+            (indexNowResult.rejectedUrls ?? []).map((url) => ({ url, type: removed.has(url) ? 'deleted' : 'updated' })),
+            options.outbox,
+            site,
+            'Rejected by every IndexNow endpoint.',
+            log,
+          );
+        }
+      }
+    } catch (error: any) {
+      console.warn(`Skipped IndexNow submission (${error?.message ?? error}).`);
+      report.errors.push({ engine: 'indexnow', message: error?.message ?? String(error) });
+      if (shouldEnqueue && urlList && !dryRun) {
+        await enqueueFailed(
+          'indexnow',
+          urlList.map((url) => ({ url, type: 'updated' })),
+          options.outbox,
+          site,
+          error?.message ?? String(error),
+          log,
+        );
       }
     }
+  }
 
-    if (shouldSubmitGoogle && googleServiceAccount) {
-      try {
-        const googleResult = await submitToGoogleIndexing({
-          baseUrl,
-          serviceAccountPath: googleServiceAccount,
-          nextBuildDir,
-          dryRun,
-          notificationType: googleNotificationType,
-          urls: urlList,
-        });
-
-        if (dryRun) {
-          console.log(
-            `Google Indexing dry run: discovered ${googleResult.urls.length} URL${googleResult.urls.length === 1 ? '' : 's'}.`,
+  if (shouldSubmitGoogle && googleCredentials) {
+    try {
+      const googleResult = await submitToGoogleIndexing({
+        baseUrl,
+        ...googleCredentials,
+        nextBuildDir,
+        exportDir,
+        dryRun,
+        notificationType: googleNotificationType,
+        dailyQuota: googleDailyQuota,
+        priority: googlePriority,
+        batchSize: googleBatchSize,
+        urlFilter,
+        urls: urlList,
+        sitemap: options.sitemap,
+        sitemapModifiedSince: options.sitemapSince,
+        dynamicRouteResolver,
+        inspectHtml,
+        applyRoutingRules,
+        followRedirects,
+        respectRobotsTxt,
+        retry,
+        changedOnly,
+        notifyRemoved,
+        stateFile,
+      });
+      report.google = googleResult;
+
+      logRoutingDecisions(googleResult.routingDecisions, 'the Google Indexing API', log);
+      logExcludedUrls(googleResult.excludedUrls, 'the Google Indexing API', log);
+      logDisallowedUrls(googleResult.disallowedUrls, 'the Google Indexing API', log);
+      if (googleResult.unchangedUrls?.length) {
+        log(
+          `Skipped ${googleResult.unchangedUrls.length} unchanged URL${googleResult.unchangedUrls.length === 1 ? '' : 's'} for the Google Indexing API.`,
+        );
+      }
+      if (googleResult.removedUrls?.length) {
+        log(
+          `Detected ${googleResult.removedUrls.length} removed URL${googleResult.removedUrls.length === 1 ? '' : 's'} for the Google Indexing API (sent as URL_DELETED):`,
+        );
+        for (const removedUrl of googleResult.removedUrls) {
+          log(`- ${removedUrl}`);
+        }
+      }
+      if (dryRun) {
+        log(
+          `Google Indexing dry run: discovered ${googleResult.urls.length} URL${googleResult.urls.length === 1 ? '' : 's'}.`,
+        );
+      } else {
+        log(
+          `Submitted ${googleResult.responses.length} URL${googleResult.responses.length === 1 ? '' : 's'} to the Google Indexing API.`,
+        );
+        for (const response of googleResult.responses) {
+          log(
+            `- ${response.url}: ${response.ok ? 'ok' : 'failed'} (status ${response.status}${
+              response.attempts > 1 ? `, ${response.attempts} attempts` : ''
+            }${response.body ? `, body: ${response.body}` : ''})`,
           );
-        } else {
-          console.log(
-            `Submitted ${googleResult.urls.length} URL${googleResult.urls.length === 1 ? '' : 's'} to the Google Indexing API.`,
+        }
+        if (googleResult.quota) {
+          log(
+            `Google Indexing quota: ${googleResult.quota.used}/${googleResult.quota.limit} requests used in the last 24 hours.`,
           );
-          for (const response of googleResult.responses) {
-            console.log(
-              `- ${response.url}: ${response.ok ? 'ok' : 'failed'} (status ${response.status}${
-                response.body ? `, body: ${response.body}` : ''
-              })`,
-            );
-          }
         }
-      } catch (error: any) {
-        console.warn(`Skipped Google Indexing submission (${error?.message ?? error}).`);
+        if (googleResult.quotaError) {
+          console.warn(`${googleResult.quotaError}.`);
+        }
+        if (googleResult.queuedUrls?.length) {
+          log(
+            `Queued ${googleResult.queuedUrls.length} URL${googleResult.queuedUrls.length === 1 ? '' : 's'} for the next run (daily quota exhausted).`,
+          );
+        }
+        if (shouldEnqueue) {
+          // Notifications deferred by the daily quota are already queued in the state file.
+          const queued = new Set(googleResult.queuedUrls ?? []);
+          const removed = new Set(googleResult.removedUrls ?? []);
+          const deleted = googleNotificationType === 'URL_DELETED';
+          await enqueueFailed(
+            'google',
+            googleResult.responses
+              .filter((response) => !response.ok && !queued.has(response.url))
+              .map((response) => ({
+                url: response.url,
+                type: deleted || removed.has(response.url) ? 'deleted' : 'updated',
+              })),
+            options.outbox,
+            site,
+            'Rejected by the Google Indexing API.',
+            log,
+          );
+        }
+      }
+    } catch (error: any) {
+      console.warn(`Skipped Google Indexing submission (${error?.message ?? error}).`);
+      report.errors.push({ engine: 'google', message: error?.message ?? String(error) });
+      if (shouldEnqueue && urlList && !dryRun) {
+        await enqueueFailed(
+          'google',
+          urlList.map((url) => ({ url, type: googleNotificationType === 'URL_DELETED' ? 'deleted' : 'updated' })),
+          options.outbox,
+          site,
+          error?.message ?? String(error),
+          log,
+        );
       }
-    } else if (shouldSubmitGoogle) {
-      console.log('Skipped Google Indexing submission (no service account credentials configured).');
     }
+  } else if (shouldSubmitGoogle) {
+    log('Skipped Google Indexing submission (no service account credentials configured).');
+    report.skipped.push({ engine: 'google', reason: 'no service account credentials configured' });
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    const argv = process.argv.slice(2);
+
+    if (argv[0] === 'init') {
+      if (argv.includes('--help')) {
+        printUsage();
+        return;
+      }
+      await runInit();
+      return;
+    }
+
+    if (argv[0] === 'rotate-key') {
+      const options = parseArgs(argv.slice(1));
+      await runRotateKey({ currentKey: options.key, publicDir: options.publicDir, configPath: options.config });
+      return;
+    }
+
+    if (argv[0] === 'sitemap') {
+      await runSitemapCommand(argv.slice(1));
+      return;
+    }
+
+    if (argv[0] === 'verify') {
+      await runVerifyCommand(argv.slice(1));
+      return;
+    }
+
+    if (argv[0] === 'status') {
+      await runStatusCommand(argv.slice(1));
+      return;
+    }
+
+    if (argv[0] === 'flush') {
+      await runFlushCommand(argv.slice(1));
+      return;
+    }
+
+    await runSubmitCommand(argv[0] === 'submit' ? argv.slice(1) : argv);
   } catch (error: any) {
     console.error(error?.message ?? error);
     process.exit(1);
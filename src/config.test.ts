@@ -0,0 +1,150 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { loadConfig, resolveSites, validateConfig } from './config';
+
+async function createTempDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-config-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+test('validateConfig reports every invalid and unknown option at once', () => {
+  assert.throws(
+    () =>
+      validateConfig(
+        {
+          baseUrl: 'example.com',
+          exclude: ['drafts/**'],
+          baseurl: 'https://example.com',
+          indexNow: { batchSize: 20_000, endpoint: 'https://api.indexnow.org/indexnow' },
+          google: { dailyQuota: 0, priority: 'oldest' },
+        },
+        'nextjs-indexing-pack.config.js',
+      ),
+    (error: Error) => {
+      assert.equal(
+        error.message,
+        [
+          'Invalid nextjs-indexing-pack config in nextjs-indexing-pack.config.js:',
+          '  - Unknown option "baseurl". Did you mean "baseUrl"?',
+          '  - "baseUrl" must be a fully qualified http(s) URL (received "example.com").',
+          '  - "exclude[0]" must start with "/" (received "drafts/**").',
+          '  - Unknown option "indexNow.endpoint".',
+          '  - "indexNow.batchSize" must be an integer between 1 and 10000 (received 20000).',
+          '  - "google.dailyQuota" must be a positive integer (received 0).',
+          '  - "google.priority" must be "newest" or a function (received "oldest").',
+        ].join('\n'),
+      );
+      return true;
+    },
+  );
+});
+
+test('validateConfig accepts functions and disabled quotas', () => {
+  const config = {
+    baseUrl: 'https://example.com',
+    urlFilter: (url: string) => !url.includes('?'),
+    dynamicRouteResolver: async () => ['a'],
+    google: { enabled: false, dailyQuota: false as const, priority: () => 1 },
+  };
+  assert.equal(validateConfig(config), config);
+});
+
+test('validateConfig checks every site and resolveSites merges them over the shared fields', () => {
+  assert.throws(
+    () =>
+      validateConfig({
+        sites: [
+          { name: 'web', baseUrl: 'https://example.com', indexNow: { key: 'short' } },
+          { name: 'web', baseUrl: 'https://docs.example.com', baseurl: 'https://docs.example.com' },
+          { baseUrl: 'https://blog.example.com', sites: [] },
+        ],
+      }),
+    (error: Error) => {
+      assert.equal(
+        error.message,
+        [
+          'Invalid nextjs-indexing-pack config in config:',
+          '  - "sites[0].indexNow.key" must be 8 to 128 letters, digits or dashes (received "short").',
+          '  - Unknown option "sites[1].baseurl". Did you mean "sites[1].baseUrl"?',
+          '  - "sites[1].name" is used by another site (received "web").',
+          '  - Unknown option "sites[2].sites".',
+          '  - "sites[2].name" is required.',
+        ].join('\n'),
+      );
+      return true;
+    },
+  );
+
+  const config = validateConfig({
+    exclude: ['/drafts/**'],
+    indexNow: { endpoints: ['https://api.indexnow.org/indexnow'] },
+    sites: [
+      { name: 'web', baseUrl: 'https://example.com', nextBuildDir: 'apps/web/.next', indexNow: { key: 'web-key-1' } },
+      { name: 'docs', baseUrl: 'https://docs.example.com', exclude: [] },
+    ],
+  });
+  assert.deepEqual(resolveSites(config, 'web'), [
+    {
+      name: 'web',
+      baseUrl: 'https://example.com',
+      nextBuildDir: 'apps/web/.next',
+      exclude: ['/drafts/**'],
+      indexNow: { endpoints: ['https://api.indexnow.org/indexnow'], key: 'web-key-1' },
+      google: undefined,
+    },
+  ]);
+  assert.deepEqual(
+    resolveSites(config).map((site) => [site.name, site.exclude]),
+    [
+      ['web', ['/drafts/**']],
+      ['docs', []],
+    ],
+  );
+  assert.deepEqual(resolveSites({ baseUrl: 'https://example.com' }), []);
+  assert.throws(() => resolveSites(config, 'blog'), /Unknown site "blog"\. Expected one of web, docs\./);
+});
+
+test('loadConfig loads an explicit .js config file and its default export', async (t) => {
+  const dir = await createTempDir(t);
+  const configPath = path.join(dir, 'indexing.config.js');
+  await fs.writeFile(
+    configPath,
+    "module.exports = { default: { baseUrl: 'https://example.com', exclude: ['/drafts/**'] } };\n",
+  );
+
+  assert.deepEqual(await loadConfig(configPath), { baseUrl: 'https://example.com', exclude: ['/drafts/**'] });
+});
+
+test('loadConfig prefers the TypeScript config file in the current directory', async (t) => {
+  // Created inside the project so the config can be transpiled with its TypeScript.
+  const dir = await fs.mkdtemp(path.join(process.cwd(), '.nextjs-indexing-pack-config-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.writeFile(path.join(dir, 'nextjs-indexing-pack.config.json'), '{"baseUrl":"https://json.example.com"}');
+  await fs.writeFile(
+    path.join(dir, 'nextjs-indexing-pack.config.ts'),
+    "const baseUrl: string = 'https://ts.example.com';\nexport default { baseUrl, indexNow: { enabled: false } };\n",
+  );
+
+  const originalCwd = process.cwd();
+  const originalWarn = console.warn;
+  const warnings: string[] = [];
+  process.chdir(dir);
+  console.warn = (message: string) => warnings.push(message);
+  t.after(() => {
+    process.chdir(originalCwd);
+    console.warn = originalWarn;
+  });
+
+  assert.deepEqual(await loadConfig(), { baseUrl: 'https://ts.example.com', indexNow: { enabled: false } });
+  assert.match(warnings[0], /using nextjs-indexing-pack\.config\.ts and ignoring nextjs-indexing-pack\.config\.json/);
+});
+
+test('loadConfig fails when an explicit config file is missing', async (t) => {
+  const dir = await createTempDir(t);
+  await assert.rejects(loadConfig(path.join(dir, 'missing.config.js')), /Config file not found/);
+});
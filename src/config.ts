@@ -1,48 +1,465 @@
 import path from 'node:path';
-import { promises as fs } from 'node:fs';
+import { existsSync, promises as fs, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { compileFunction } from 'node:vm';
+import type { DynamicRouteResolver } from './dynamic-routes';
+import type { GoogleNotificationType } from './google-indexing';
+import type { GoogleUrlPriority } from './google-quota';
+import { INDEXNOW_KEY_PATTERN } from './indexnow-key';
 
 export const CONFIG_FILENAME = 'nextjs-indexing-pack.config.json';
 
+/** Config files that are picked up from the project root, in order of precedence. */
+export const CONFIG_FILENAMES = [
+  'nextjs-indexing-pack.config.ts',
+  'nextjs-indexing-pack.config.mjs',
+  'nextjs-indexing-pack.config.js',
+  CONFIG_FILENAME,
+];
+
+const MAX_INDEXNOW_BATCH_SIZE = 10_000;
+const MAX_GOOGLE_BATCH_SIZE = 100;
+
+const CONFIG_FIELDS = [
+  'baseUrl',
+  'googleServiceAccountPath',
+  'dynamicRouteResolver',
+  'previousIndexNowKey',
+  'include',
+  'exclude',
+  'urlFilter',
+  'nextBuildDir',
+  'exportDir',
+  'inspectHtml',
+  'applyRoutingRules',
+  'followRedirects',
+  'respectRobotsTxt',
+  'changedOnly',
+  'notifyRemoved',
+  'stateFile',
+  'maxAttempts',
+  'indexNow',
+  'google',
+  'sites',
+];
+const SITE_CONFIG_FIELDS = ['name', ...CONFIG_FIELDS.filter((field) => field !== 'sites')];
+const INDEXNOW_CONFIG_FIELDS = ['enabled', 'key', 'keyLocation', 'endpoints', 'batchSize'];
+const GOOGLE_CONFIG_FIELDS = ['enabled', 'notificationType', 'dailyQuota', 'priority', 'batchSize', 'tokenCacheFile'];
+
+export interface IndexNowEngineConfig {
+  /** Set to false to skip IndexNow unless `--indexnow` is passed. */
+  enabled?: boolean;
+  /** IndexNow key. `--key` and `INDEXNOW_KEY` take precedence. */
+  key?: string;
+  /** Absolute URL of the key file. Defaults to `<baseUrl>/<key>.txt`. */
+  keyLocation?: string;
+  /** IndexNow endpoints to notify instead of the default list. */
+  endpoints?: string[];
+  /** Maximum number of URLs per request (at most 10,000). */
+  batchSize?: number;
+}
+
+export interface GoogleEngineConfig {
+  /** Set to false to skip the Google Indexing API unless `--google` is passed. */
+  enabled?: boolean;
+  /** Notification type sent by default. */
+  notificationType?: GoogleNotificationType;
+  /** Publish requests per rolling day before URLs are queued, or false to disable the ledger. */
+  dailyQuota?: number | false;
+  /** Order in which URLs spend the daily quota. Functions are only available in executable config files. */
+  priority?: GoogleUrlPriority;
+  /** Notifications per batch request (at most 100). */
+  batchSize?: number;
+  /** File used to cache access tokens between runs. */
+  tokenCacheFile?: string;
+}
+
 export interface NextjsIndexingPackConfig {
   baseUrl?: string;
   googleServiceAccountPath?: string;
+  /** Path to a CommonJS module that exports a dynamic route resolver, or the resolver itself. */
+  dynamicRouteResolver?: string | DynamicRouteResolver;
+  /** IndexNow key that is being rotated out. Its key file is kept until the new key is verified. */
+  previousIndexNowKey?: string;
+  /** Only submit URLs whose path matches one of these patterns (e.g. `/blog/**`). */
+  include?: string[];
+  /** Never submit URLs whose path matches one of these patterns (e.g. `/drafts/**`). */
+  exclude?: string[];
+  /** Custom URL filter that runs after `include` and `exclude`. Only available in executable config files. */
+  urlFilter?: (url: string) => boolean;
+  /** Location of the Next.js build output. `--next-build-dir` takes precedence. Defaults to `.next`. */
+  nextBuildDir?: string;
+  /** Static export directory (for example `out`) to discover pages from instead of the build manifests. */
+  exportDir?: string;
+  /** Set to false to submit discovered pages without checking their built HTML for `noindex` and canonical URLs. */
+  inspectHtml?: boolean;
+  /** Set to false to submit discovered routes without applying the redirects and rewrites of the build. */
+  applyRoutingRules?: boolean;
+  /** Also submit the destination of each permanently redirected route. */
+  followRedirects?: boolean;
+  /** Set to false to also submit URLs that the site's robots.txt disallows. */
+  respectRobotsTxt?: boolean;
+  /** Submit only routes that changed since the last run by default. */
+  changedOnly?: boolean;
+  /** Notify search engines about removed routes by default. */
+  notifyRemoved?: boolean;
+  /** Location of the submission state file. */
+  stateFile?: string;
+  /** Attempts per request before giving up on 429/5xx responses or network errors. */
+  maxAttempts?: number;
+  indexNow?: IndexNowEngineConfig;
+  google?: GoogleEngineConfig;
+  /**
+   * Sites of a monorepo, each with its own base URL, keys and build directory. The other fields of the config are
+   * shared defaults that every site can override.
+   */
+  sites?: SiteConfig[];
+}
+
+export interface SiteConfig extends Omit<NextjsIndexingPackConfig, 'sites'> {
+  /** Name that selects the site with `--site` and labels its results in the report. */
+  name: string;
+}
+
+/**
+ * Identity helper that types `nextjs-indexing-pack.config.{ts,mjs,js}`:
+ *
+ * ```ts
+ * import { defineConfig } from 'nextjs-indexing-pack';
+ *
+ * export default defineConfig({ baseUrl: 'https://example.com', exclude: ['/drafts/**'] });
+ * ```
+ */
+export function defineConfig(config: NextjsIndexingPackConfig): NextjsIndexingPackConfig {
+  return config;
 }
 
 export function getConfigPath(): string {
   return path.join(process.cwd(), CONFIG_FILENAME);
 }
 
-export async function loadConfig(): Promise<NextjsIndexingPackConfig | undefined> {
+/**
+ * Returns the config file to load: `configPath` when given, otherwise the first of `CONFIG_FILENAMES` that exists
+ * in the current directory.
+ */
+export function findConfigPath(configPath?: string): string | undefined {
+  if (configPath) {
+    return path.resolve(configPath);
+  }
+  const found = CONFIG_FILENAMES.map((name) => path.join(process.cwd(), name)).filter((candidate) =>
+    existsSync(candidate),
+  );
+  if (found.length > 1) {
+    console.warn(
+      `Found multiple nextjs-indexing-pack config files; using ${path.basename(found[0])} and ignoring ${found
+        .slice(1)
+        .map((candidate) => path.basename(candidate))
+        .join(', ')}.`,
+    );
+  }
+  return found[0];
+}
+
+// tsc compiles `import()` to `require()` for CommonJS output, which cannot load ES modules.
+const dynamicImport = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+
+function requireTypeScript(resolvedPath: string): any {
+  // Prefer the TypeScript next to the config file or in the project, then fall back to this package's.
+  const loaders = [
+    () => createRequire(resolvedPath)('typescript'),
+    () => createRequire(path.join(process.cwd(), 'package.json'))('typescript'),
+    () => require('typescript'),
+  ];
+  for (const load of loaders) {
+    try {
+      return load();
+    } catch {
+      // Try the next location.
+    }
+  }
+  throw new Error(
+    `Loading ${path.basename(resolvedPath)} requires the "typescript" package. Install it or use a .js config file.`,
+  );
+}
+
+function loadTypeScriptModule(resolvedPath: string): unknown {
+  const ts = requireTypeScript(resolvedPath);
+  const { outputText } = ts.transpileModule(readFileSync(resolvedPath, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: resolvedPath,
+  });
+  const configModule = { exports: {} as unknown };
+  const run = compileFunction(outputText, ['exports', 'require', 'module', '__filename', '__dirname'], {
+    filename: resolvedPath,
+  });
+  run(configModule.exports, createRequire(resolvedPath), configModule, resolvedPath, path.dirname(resolvedPath));
+  return configModule.exports;
+}
+
+async function importConfigModule(resolvedPath: string): Promise<unknown> {
+  const extension = path.extname(resolvedPath);
+  if (extension === '.json') {
+    const contents = await fs.readFile(resolvedPath, 'utf8');
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      throw new Error(`Failed to parse ${path.basename(resolvedPath)}: ${(error as Error).message}`);
+    }
+  }
+  let loaded: any;
+  if (extension === '.ts' || extension === '.cts' || extension === '.mts') {
+    loaded = loadTypeScriptModule(resolvedPath);
+  } else if (extension === '.mjs') {
+    loaded = await dynamicImport(pathToFileURL(resolvedPath).href);
+  } else {
+    delete require.cache[resolvedPath];
+    try {
+      loaded = require(resolvedPath);
+    } catch (error: any) {
+      if (error?.code !== 'ERR_REQUIRE_ESM') {
+        throw error;
+      }
+      loaded = await dynamicImport(pathToFileURL(resolvedPath).href);
+    }
+  }
+  return loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'function') return 'a function';
+  if (Array.isArray(value)) return 'an array';
+  if (value === null) return 'null';
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isAbsoluteUrl(value: string): boolean {
   try {
-    const contents = await fs.readFile(getConfigPath(), 'utf8');
-    const parsed = JSON.parse(contents);
-    if (!parsed || typeof parsed !== 'object') {
-      console.warn('Ignoring malformed nextjs-indexing-pack config (expected an object).');
-      return undefined;
-    }
-    const config: NextjsIndexingPackConfig = {};
-    if (typeof parsed.baseUrl === 'string') {
-      config.baseUrl = parsed.baseUrl;
-    } else if (parsed.baseUrl !== undefined) {
-      console.warn('Ignoring invalid "baseUrl" in nextjs-indexing-pack config (expected a string).');
-    }
-    if (typeof parsed.googleServiceAccountPath === 'string') {
-      config.googleServiceAccountPath = parsed.googleServiceAccountPath;
-    } else if (parsed.googleServiceAccountPath !== undefined) {
-      console.warn('Ignoring invalid "googleServiceAccountPath" in nextjs-indexing-pack config (expected a string).');
-    }
-    return config;
-  } catch (error: any) {
-    if (error?.code === 'ENOENT') {
-      return undefined;
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+type ValueCheck = (value: string) => string | undefined;
+
+function checkUnknownFields(issues: string[], value: Record<string, unknown>, allowed: string[], prefix = ''): void {
+  for (const field of Object.keys(value)) {
+    if (allowed.includes(field)) continue;
+    const suggestion = allowed.find((candidate) => candidate.toLowerCase() === field.toLowerCase());
+    issues.push(`Unknown option "${prefix}${field}".${suggestion ? ` Did you mean "${prefix}${suggestion}"?` : ''}`);
+  }
+}
+
+function checkString(issues: string[], value: unknown, field: string, check?: ValueCheck): void {
+  if (value === undefined) return;
+  if (typeof value !== 'string' || !value) {
+    issues.push(`"${field}" must be a non-empty string (received ${describeValue(value)}).`);
+    return;
+  }
+  const problem = check?.(value);
+  if (problem) {
+    issues.push(`"${field}" ${problem} (received ${describeValue(value)}).`);
+  }
+}
+
+function checkBoolean(issues: string[], value: unknown, field: string): void {
+  if (value !== undefined && typeof value !== 'boolean') {
+    issues.push(`"${field}" must be true or false (received ${describeValue(value)}).`);
+  }
+}
+
+function checkInteger(issues: string[], value: unknown, field: string, max?: number): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || (max !== undefined && value > max)) {
+    const range = max === undefined ? 'a positive integer' : `an integer between 1 and ${max}`;
+    issues.push(`"${field}" must be ${range} (received ${describeValue(value)}).`);
+  }
+}
+
+function checkStringArray(issues: string[], value: unknown, field: string, check?: ValueCheck): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`"${field}" must be an array of strings (received ${describeValue(value)}).`);
+    return;
+  }
+  value.forEach((entry, index) => checkString(issues, entry, `${field}[${index}]`, check));
+}
+
+function checkFunction(issues: string[], value: unknown, field: string): void {
+  if (value !== undefined && typeof value !== 'function') {
+    issues.push(`"${field}" must be a function (received ${describeValue(value)}).`);
+  }
+}
+
+function checkObject(issues: string[], value: unknown, field: string): value is Record<string, unknown> {
+  if (value === undefined) return false;
+  if (!isPlainObject(value)) {
+    issues.push(`"${field}" must be an object (received ${describeValue(value)}).`);
+    return false;
+  }
+  return true;
+}
+
+const urlCheck: ValueCheck = (value) => (isAbsoluteUrl(value) ? undefined : 'must be a fully qualified http(s) URL');
+const patternCheck: ValueCheck = (value) => (value.startsWith('/') ? undefined : 'must start with "/"');
+
+function checkConfigFields(issues: string[], raw: Record<string, unknown>, prefix = ''): void {
+  checkString(issues, raw.baseUrl, `${prefix}baseUrl`, urlCheck);
+  checkString(issues, raw.googleServiceAccountPath, `${prefix}googleServiceAccountPath`);
+  if (typeof raw.dynamicRouteResolver !== 'function') {
+    checkString(issues, raw.dynamicRouteResolver, `${prefix}dynamicRouteResolver`);
+  }
+  checkString(issues, raw.previousIndexNowKey, `${prefix}previousIndexNowKey`);
+  checkStringArray(issues, raw.include, `${prefix}include`, patternCheck);
+  checkStringArray(issues, raw.exclude, `${prefix}exclude`, patternCheck);
+  checkFunction(issues, raw.urlFilter, `${prefix}urlFilter`);
+  checkString(issues, raw.nextBuildDir, `${prefix}nextBuildDir`);
+  checkString(issues, raw.exportDir, `${prefix}exportDir`);
+  checkBoolean(issues, raw.inspectHtml, `${prefix}inspectHtml`);
+  checkBoolean(issues, raw.applyRoutingRules, `${prefix}applyRoutingRules`);
+  checkBoolean(issues, raw.followRedirects, `${prefix}followRedirects`);
+  checkBoolean(issues, raw.respectRobotsTxt, `${prefix}respectRobotsTxt`);
+  checkBoolean(issues, raw.changedOnly, `${prefix}changedOnly`);
+  checkBoolean(issues, raw.notifyRemoved, `${prefix}notifyRemoved`);
+  checkString(issues, raw.stateFile, `${prefix}stateFile`);
+  checkInteger(issues, raw.maxAttempts, `${prefix}maxAttempts`);
+
+  if (checkObject(issues, raw.indexNow, `${prefix}indexNow`)) {
+    const indexNow = raw.indexNow;
+    checkUnknownFields(issues, indexNow, INDEXNOW_CONFIG_FIELDS, `${prefix}indexNow.`);
+    checkBoolean(issues, indexNow.enabled, `${prefix}indexNow.enabled`);
+    checkString(issues, indexNow.key, `${prefix}indexNow.key`, (value) =>
+      INDEXNOW_KEY_PATTERN.test(value) ? undefined : 'must be 8 to 128 letters, digits or dashes',
+    );
+    checkString(issues, indexNow.keyLocation, `${prefix}indexNow.keyLocation`, urlCheck);
+    checkStringArray(issues, indexNow.endpoints, `${prefix}indexNow.endpoints`, urlCheck);
+    checkInteger(issues, indexNow.batchSize, `${prefix}indexNow.batchSize`, MAX_INDEXNOW_BATCH_SIZE);
+  }
+
+  if (checkObject(issues, raw.google, `${prefix}google`)) {
+    const google = raw.google;
+    checkUnknownFields(issues, google, GOOGLE_CONFIG_FIELDS, `${prefix}google.`);
+    checkBoolean(issues, google.enabled, `${prefix}google.enabled`);
+    const { notificationType } = google;
+    if (notificationType !== undefined && notificationType !== 'URL_UPDATED' && notificationType !== 'URL_DELETED') {
+      issues.push(
+        `"${prefix}google.notificationType" must be "URL_UPDATED" or "URL_DELETED" ` +
+          `(received ${describeValue(notificationType)}).`,
+      );
+    }
+    if (google.dailyQuota !== false) {
+      checkInteger(issues, google.dailyQuota, `${prefix}google.dailyQuota`);
+    }
+    if (google.priority !== undefined && google.priority !== 'newest' && typeof google.priority !== 'function') {
+      issues.push(
+        `"${prefix}google.priority" must be "newest" or a function (received ${describeValue(google.priority)}).`,
+      );
+    }
+    checkInteger(issues, google.batchSize, `${prefix}google.batchSize`, MAX_GOOGLE_BATCH_SIZE);
+    checkString(issues, google.tokenCacheFile, `${prefix}google.tokenCacheFile`);
+  }
+}
+
+function checkSites(issues: string[], value: unknown): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || !value.length) {
+    issues.push(`"sites" must be a non-empty array of site objects (received ${describeValue(value)}).`);
+    return;
+  }
+  const names = new Set<string>();
+  value.forEach((site, index) => {
+    const prefix = `sites[${index}].`;
+    if (!checkObject(issues, site, `sites[${index}]`)) return;
+    checkUnknownFields(issues, site, SITE_CONFIG_FIELDS, prefix);
+    if (site.name === undefined) {
+      issues.push(`"${prefix}name" is required.`);
+    } else {
+      const uniqueName: ValueCheck = (name) => (names.has(name) ? 'is used by another site' : undefined);
+      checkString(issues, site.name, `${prefix}name`, uniqueName);
+      if (typeof site.name === 'string') names.add(site.name);
     }
-    console.warn('Unable to load nextjs-indexing-pack config:', error?.message ?? error);
+    checkConfigFields(issues, site, prefix);
+  });
+}
+
+/**
+ * Validates a raw config object and returns it typed. Every problem is reported in a single error, prefixed with
+ * `source` (usually the config file name).
+ */
+export function validateConfig(raw: unknown, source = 'config'): NextjsIndexingPackConfig {
+  const issues: string[] = [];
+  if (!isPlainObject(raw)) {
+    throw new Error(
+      `Invalid nextjs-indexing-pack config in ${source}: expected an object (received ${describeValue(raw)}).`,
+    );
+  }
+  checkUnknownFields(issues, raw, CONFIG_FIELDS);
+  checkConfigFields(issues, raw);
+  checkSites(issues, raw.sites);
+
+  if (issues.length) {
+    throw new Error(
+      `Invalid nextjs-indexing-pack config in ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`,
+    );
+  }
+  return raw as NextjsIndexingPackConfig;
+}
+
+/**
+ * Returns the sites to run for: the site named `siteName`, or every site when no name is given. Each site is
+ * merged over the shared fields of the config, including the `indexNow` and `google` settings. Resolves with an
+ * empty array for configs without `sites`.
+ */
+export function resolveSites(config: NextjsIndexingPackConfig | undefined, siteName?: string): SiteConfig[] {
+  const sites = config?.sites ?? [];
+  if (siteName !== undefined && !sites.length) {
+    throw new Error(`Unknown site "${siteName}". Add a "sites" array to the config file to use --site.`);
+  }
+  const shared: NextjsIndexingPackConfig = { ...config };
+  delete shared.sites;
+  const selected = siteName === undefined ? sites : sites.filter((site) => site.name === siteName);
+  if (!selected.length && siteName !== undefined) {
+    throw new Error(`Unknown site "${siteName}". Expected one of ${sites.map((site) => site.name).join(', ')}.`);
+  }
+  return selected.map((site) => ({
+    ...shared,
+    ...site,
+    indexNow: shared.indexNow || site.indexNow ? { ...shared.indexNow, ...site.indexNow } : undefined,
+    google: shared.google || site.google ? { ...shared.google, ...site.google } : undefined,
+  }));
+}
+
+/**
+ * Loads and validates the config file. `configPath` selects a specific file; otherwise the first of
+ * `CONFIG_FILENAMES` in the current directory is used. Resolves with undefined when no config file exists.
+ */
+export async function loadConfig(configPath?: string): Promise<NextjsIndexingPackConfig | undefined> {
+  const resolvedPath = findConfigPath(configPath);
+  if (!resolvedPath) {
     return undefined;
   }
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+  let raw: unknown;
+  try {
+    raw = await importConfigModule(resolvedPath);
+  } catch (error: any) {
+    throw new Error(`Unable to load nextjs-indexing-pack config from ${resolvedPath}: ${error?.message ?? error}`);
+  }
+  return validateConfig(raw, path.relative(process.cwd(), resolvedPath) || resolvedPath);
 }
 
-export async function saveConfig(config: NextjsIndexingPackConfig): Promise<'created' | 'updated'> {
-  const configPath = getConfigPath();
+export async function saveConfig(
+  config: NextjsIndexingPackConfig,
+  configPath = getConfigPath(),
+): Promise<'created' | 'updated'> {
   let status: 'created' | 'updated' = 'created';
   try {
     await fs.access(configPath);
@@ -57,3 +474,34 @@ export async function saveConfig(config: NextjsIndexingPackConfig): Promise<'cre
   await fs.writeFile(configPath, contents, 'utf8');
   return status;
 }
+
+/**
+ * Merges `changes` into the existing JSON config file, keeping every other field. Fields set to `undefined` are
+ * removed. Executable config files cannot be updated and throw.
+ */
+export async function updateConfig(
+  changes: Partial<NextjsIndexingPackConfig>,
+  configPath = findConfigPath() ?? getConfigPath(),
+): Promise<'created' | 'updated'> {
+  if (path.extname(configPath) !== '.json') {
+    throw new Error(`${path.basename(configPath)} cannot be updated automatically.`);
+  }
+  let current: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    if (parsed && typeof parsed === 'object') {
+      current = parsed;
+    }
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  const merged: Record<string, unknown> = { ...current, ...changes };
+  for (const [field, value] of Object.entries(merged)) {
+    if (value === undefined) {
+      delete merged[field];
+    }
+  }
+  return saveConfig(merged as NextjsIndexingPackConfig, configPath);
+}
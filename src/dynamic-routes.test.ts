@@ -0,0 +1,23 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { expandDynamicRoute } from './dynamic-routes';
+
+test('expandDynamicRoute fills single, catch-all and optional catch-all segments', () => {
+  assert.equal(expandDynamicRoute('/blog/[slug]', 'hello world'), '/blog/hello%20world');
+  assert.equal(expandDynamicRoute('/docs/[...path]', 'guides/setup'), '/docs/guides/setup');
+  assert.equal(expandDynamicRoute('/docs/[[...path]]', ''), '/docs');
+  assert.equal(expandDynamicRoute('/[lang]/[...path]', { lang: 'fr', path: ['a', 'b'] }), '/fr/a/b');
+  assert.equal(expandDynamicRoute('/blog/[slug]', '/blog/already-expanded'), '/blog/already-expanded');
+});
+
+test('expandDynamicRoute rejects missing params', () => {
+  assert.throws(
+    () => expandDynamicRoute('/[lang]/[slug]', 'hello'),
+    /has 2 dynamic segments/,
+  );
+  assert.throws(
+    () => expandDynamicRoute('/docs/[...path]', { path: [] }),
+    /did not provide a value for "path"/,
+  );
+});
@@ -0,0 +1,121 @@
+import path from 'node:path';
+
+/**
+ * Values for the dynamic segments of a route pattern, keyed by parameter name. Catch-all segments accept an
+ * array (or a slash separated string) and optional catch-all segments may be omitted.
+ */
+export type DynamicRouteParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Returns the concrete values for a dynamic route pattern such as `/blog/[slug]` or `/docs/[[...path]]`.
+ *
+ * Each entry may be a concrete path (`/blog/hello-world`), the value of the pattern's only dynamic segment
+ * (`hello-world`, or `guides/setup` for a catch-all) or an object that maps parameter names to values.
+ */
+export type DynamicRouteResolver = (
+  routePattern: string,
+) => Promise<Array<string | DynamicRouteParams>> | Array<string | DynamicRouteParams>;
+
+interface PatternSegment {
+  value: string;
+  param?: string;
+  catchAll?: boolean;
+  optional?: boolean;
+}
+
+function parsePattern(routePattern: string): PatternSegment[] {
+  return routePattern
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => {
+      const optionalCatchAll = /^\[\[\.\.\.([^\]]+)\]\]$/.exec(segment);
+      if (optionalCatchAll) {
+        return { value: segment, param: optionalCatchAll[1], catchAll: true, optional: true };
+      }
+      const catchAll = /^\[\.\.\.([^\]]+)\]$/.exec(segment);
+      if (catchAll) {
+        return { value: segment, param: catchAll[1], catchAll: true };
+      }
+      const single = /^\[([^\]]+)\]$/.exec(segment);
+      if (single) {
+        return { value: segment, param: single[1] };
+      }
+      return { value: segment };
+    });
+}
+
+export function isExpandableRoutePattern(routePattern: string): boolean {
+  return parsePattern(routePattern).some((segment) => segment.param !== undefined);
+}
+
+function toParts(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  const parts = Array.isArray(value) ? value : value.split('/');
+  return parts.filter((part) => part.length > 0);
+}
+
+/**
+ * Builds a concrete route from a dynamic route pattern and the value returned by a `DynamicRouteResolver`.
+ */
+export function expandDynamicRoute(routePattern: string, value: string | DynamicRouteParams): string {
+  if (typeof value === 'string' && value.startsWith('/')) {
+    return value;
+  }
+
+  const segments = parsePattern(routePattern);
+  const dynamicSegments = segments.filter((segment) => segment.param !== undefined);
+  let params: DynamicRouteParams;
+  if (typeof value === 'string') {
+    if (dynamicSegments.length !== 1) {
+      throw new Error(
+        `Dynamic route resolver returned "${value}" for ${routePattern}, which has ${dynamicSegments.length} dynamic segments. Return a path or an object of params instead.`,
+      );
+    }
+    params = { [dynamicSegments[0].param as string]: value };
+  } else {
+    params = value;
+  }
+
+  const parts: string[] = [];
+  for (const segment of segments) {
+    if (segment.param === undefined) {
+      parts.push(segment.value);
+      continue;
+    }
+    const raw = params[segment.param];
+    if (segment.catchAll) {
+      const values = toParts(raw);
+      if (!values.length && !segment.optional) {
+        throw new Error(`Dynamic route resolver did not provide a value for "${segment.param}" in ${routePattern}.`);
+      }
+      parts.push(...values.map((part) => encodeURIComponent(part)));
+      continue;
+    }
+    if (typeof raw !== 'string' || !raw) {
+      throw new Error(`Dynamic route resolver did not provide a value for "${segment.param}" in ${routePattern}.`);
+    }
+    parts.push(encodeURIComponent(raw));
+  }
+  return `/${parts.join('/')}`;
+}
+
+/**
+ * Loads a `DynamicRouteResolver` from a CommonJS module that exports it as `module.exports`,
+ * `dynamicRouteResolver` or `default`.
+ */
+export function loadDynamicRouteResolver(modulePath: string): DynamicRouteResolver {
+  const resolvedPath = path.resolve(modulePath);
+  let loaded: any;
+  try {
+    loaded = require(resolvedPath);
+  } catch (error) {
+    throw new Error(`Failed to load dynamic route resolver at ${resolvedPath}: ${(error as Error).message}`);
+  }
+  const resolver = typeof loaded === 'function' ? loaded : loaded?.dynamicRouteResolver ?? loaded?.default;
+  if (typeof resolver !== 'function') {
+    throw new Error(`Dynamic route resolver at ${resolvedPath} must export a function.`);
+  }
+  return resolver as DynamicRouteResolver;
+}
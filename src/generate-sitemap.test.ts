@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { generateSitemap } from './generate-sitemap';
+import { readSitemap } from './sitemap';
+
+async function createProject(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-generate-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.mkdir(path.join(dir, '.next', 'server', 'app'), { recursive: true });
+  await fs.writeFile(
+    path.join(dir, '.next', 'routes-manifest.json'),
+    JSON.stringify({ staticRoutes: [{ page: '/' }, { page: '/about' }, { page: '/contact' }] }),
+  );
+  await fs.writeFile(path.join(dir, '.next', 'server', 'app', 'about.html'), '<html></html>');
+  return dir;
+}
+
+test('generateSitemap splits large sitemaps into an index that readSitemap can follow', async (t) => {
+  const dir = await createProject(t);
+  const outDir = path.join(dir, 'public');
+  await fs.mkdir(outDir);
+  await fs.writeFile(path.join(outDir, 'sitemap-7.xml'), 'stale');
+
+  const result = await generateSitemap({
+    baseUrl: 'https://example.com/',
+    nextBuildDir: path.join(dir, '.next'),
+    outDir,
+    maxUrlsPerSitemap: 2,
+  });
+
+  assert.deepEqual(
+    result.files.map((file) => path.basename(file)),
+    ['sitemap.xml', 'sitemap-0.xml', 'sitemap-1.xml'],
+  );
+  assert.deepEqual((await fs.readdir(outDir)).sort(), ['sitemap-0.xml', 'sitemap-1.xml', 'sitemap.xml']);
+
+  const entries = await readSitemap(path.join(outDir, 'sitemap.xml'));
+  assert.deepEqual(
+    entries.map((entry) => entry.loc),
+    ['https://example.com', 'https://example.com/about', 'https://example.com/contact'],
+  );
+  assert.ok(entries[1].lastmod);
+  assert.equal(entries[0].lastmod, undefined);
+});
@@ -0,0 +1,218 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { collectIndexableUrls } from './indexnow';
+import { applyBasePath, readRoutingConfig } from './routing';
+import { readRouteLastModified } from './state';
+import { resolveNextBuildDir } from './build-output';
+import type { DynamicRouteResolver } from './dynamic-routes';
+
+// Limits from the sitemaps.org protocol for a single sitemap file.
+const MAX_URLS_PER_SITEMAP = 50_000;
+const MAX_BYTES_PER_SITEMAP = 50 * 1024 * 1024;
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+const URLSET_OPEN = `<urlset xmlns="${SITEMAP_NAMESPACE}">\n`;
+const URLSET_CLOSE = '</urlset>\n';
+
+export interface GenerateSitemapOptions {
+  /**
+   * Fully qualified base URL of your Next.js application (e.g. https://example.com)
+   */
+  baseUrl: string;
+  /**
+   * Directory that contains the compiled Next.js output. Defaults to `.next`. A standalone build
+   * (`.next/standalone`) is also accepted.
+   */
+  nextBuildDir?: string;
+  /**
+   * Static export directory (`output: 'export'`, usually `out`) to list the pages of instead of the routes in the
+   * build manifests.
+   */
+  exportDir?: string;
+  /**
+   * Directory the sitemap files are written to. Defaults to `public`; use `out` for static exports.
+   */
+  outDir?: string;
+  /**
+   * Optional filter that can be used to remove URLs from the sitemap.
+   */
+  urlFilter?: (url: string) => boolean;
+  /**
+   * Optional callback that returns the concrete values for dynamic route patterns such as `/blog/[slug]`.
+   */
+  dynamicRouteResolver?: DynamicRouteResolver;
+  /**
+   * Leave out `noindex` pages and list canonicalized pages under their canonical URL. Defaults to true.
+   */
+  inspectHtml?: boolean;
+  /**
+   * Leave out permanently redirected routes and list static rewrites under their public source. Defaults to true.
+   */
+  applyRoutingRules?: boolean;
+  /**
+   * List the destination of each permanently redirected route. Defaults to false.
+   */
+  followRedirects?: boolean;
+  /**
+   * When true, the sitemap is assembled but no files are written.
+   */
+  dryRun?: boolean;
+  /**
+   * Maximum number of URLs per sitemap file before splitting into a sitemap index. Defaults to 50,000.
+   */
+  maxUrlsPerSitemap?: number;
+  /**
+   * Maximum size in bytes of a sitemap file before splitting into a sitemap index. Defaults to 50 MB.
+   */
+  maxBytesPerSitemap?: number;
+}
+
+export interface GenerateSitemapResult {
+  /** URLs listed in the generated sitemap */
+  urls: string[];
+  /** Files that were written (or would be written during a dry run), starting with `sitemap.xml` */
+  files: string[];
+}
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: string;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function renderUrl(entry: SitemapUrl): string {
+  const lastmod = entry.lastmod ? `<lastmod>${entry.lastmod}</lastmod>` : '';
+  return `  <url><loc>${escapeXml(entry.loc)}</loc>${lastmod}</url>\n`;
+}
+
+function splitIntoSitemaps(entries: string[], maxUrls: number, maxBytes: number): string[][] {
+  const overhead = Buffer.byteLength(XML_DECLARATION + URLSET_OPEN + URLSET_CLOSE);
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentBytes = overhead;
+  for (const entry of entries) {
+    const entryBytes = Buffer.byteLength(entry);
+    if (current.length && (current.length >= maxUrls || currentBytes + entryBytes > maxBytes)) {
+      chunks.push(current);
+      current = [];
+      currentBytes = overhead;
+    }
+    current.push(entry);
+    currentBytes += entryBytes;
+  }
+  if (current.length || !chunks.length) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+async function removeStaleChunks(outDir: string, keep: Set<string>): Promise<void> {
+  let names: string[];
+  try {
+    names = await fs.readdir(outDir);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  for (const name of names) {
+    if (/^sitemap-\d+\.xml$/.test(name) && !keep.has(name)) {
+      await fs.unlink(path.join(outDir, name));
+    }
+  }
+}
+
+/**
+ * Writes `sitemap.xml` for the routes discovered in the Next.js build output. Sitemaps that exceed the
+ * protocol limits are split into `sitemap-<n>.xml` files referenced from a `sitemap.xml` index.
+ */
+export async function generateSitemap(options: GenerateSitemapOptions): Promise<GenerateSitemapResult> {
+  const {
+    baseUrl,
+    exportDir,
+    outDir = 'public',
+    urlFilter,
+    dynamicRouteResolver,
+    inspectHtml,
+    applyRoutingRules,
+    followRedirects,
+    dryRun,
+    maxUrlsPerSitemap = MAX_URLS_PER_SITEMAP,
+    maxBytesPerSitemap = MAX_BYTES_PER_SITEMAP,
+  } = options;
+
+  if (!baseUrl) {
+    throw new Error('`baseUrl` must be provided.');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new Error(`\`baseUrl\` must be a fully qualified URL (for example, https://example.com). Received: ${baseUrl}`);
+  }
+  const pathname = url.pathname.endsWith('/') && url.pathname !== '/' ? url.pathname.slice(0, -1) : url.pathname;
+  const normalizedBase = `${url.origin}${pathname === '/' ? '' : pathname}`;
+
+  const nextBuildDir = await resolveNextBuildDir(options.nextBuildDir);
+  const routeUrls = await collectIndexableUrls(normalizedBase, nextBuildDir, {
+    dynamicRouteResolver,
+    exportDir,
+    inspectHtml,
+    applyRoutingRules,
+    followRedirects,
+  });
+  const entries: SitemapUrl[] = [];
+  for (const { route, url: loc } of routeUrls) {
+    if (urlFilter && !urlFilter(loc)) continue;
+    const lastmod = await readRouteLastModified(nextBuildDir, route, exportDir);
+    entries.push(lastmod ? { loc, lastmod: lastmod.toISOString() } : { loc });
+  }
+  // The sitemap files themselves are public files, which Next.js serves below `basePath`.
+  const { basePath } = await readRoutingConfig(nextBuildDir);
+  const publicBase = applyBasePath(normalizedBase, basePath);
+
+  const resolvedOutDir = path.resolve(outDir);
+  const chunks = splitIntoSitemaps(entries.map(renderUrl), maxUrlsPerSitemap, maxBytesPerSitemap);
+  const files = new Map<string, string>();
+  if (chunks.length === 1) {
+    files.set('sitemap.xml', `${XML_DECLARATION}${URLSET_OPEN}${chunks[0].join('')}${URLSET_CLOSE}`);
+  } else {
+    const now = new Date().toISOString();
+    let index = `${XML_DECLARATION}<sitemapindex xmlns="${SITEMAP_NAMESPACE}">\n`;
+    chunks.forEach((chunk, chunkIndex) => {
+      const name = `sitemap-${chunkIndex}.xml`;
+      files.set(name, `${XML_DECLARATION}${URLSET_OPEN}${chunk.join('')}${URLSET_CLOSE}`);
+      index += `  <sitemap><loc>${escapeXml(`${publicBase}/${name}`)}</loc><lastmod>${now}</lastmod></sitemap>\n`;
+    });
+    index += '</sitemapindex>\n';
+    files.set('sitemap.xml', index);
+  }
+
+  const writtenFiles = ['sitemap.xml', ...Array.from(files.keys()).filter((name) => name !== 'sitemap.xml')].map(
+    (name) => path.join(resolvedOutDir, name),
+  );
+
+  if (!dryRun) {
+    await fs.mkdir(resolvedOutDir, { recursive: true });
+    for (const [name, contents] of files) {
+      await fs.writeFile(path.join(resolvedOutDir, name), contents, 'utf8');
+    }
+    await removeStaleChunks(resolvedOutDir, new Set(files.keys()));
+  }
+
+  return {
+    urls: entries.map((entry) => entry.loc),
+    files: writtenFiles,
+  };
+}
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { clearAccessTokenCache, createAccessToken, readServiceAccount } from './google-auth';
+
+const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+test('readServiceAccount accepts inline and base64 encoded JSON', async (t) => {
+  const json = JSON.stringify({
+    client_email: 'indexer@example.iam.gserviceaccount.com',
+    private_key: privateKeyPem.replace(/\n/g, '\\n'),
+  });
+  const expected = {
+    clientEmail: 'indexer@example.iam.gserviceaccount.com',
+    privateKey: privateKeyPem,
+    tokenUri: 'https://oauth2.googleapis.com/token',
+  };
+
+  assert.deepEqual(await readServiceAccount({ serviceAccount: json }), expected);
+  assert.deepEqual(
+    await readServiceAccount({ serviceAccount: { client_email: expected.clientEmail, private_key: privateKeyPem } }),
+    expected,
+  );
+
+  const original = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+  process.env.GOOGLE_SERVICE_ACCOUNT_JSON = Buffer.from(json).toString('base64');
+  t.after(() => {
+    if (original === undefined) {
+      delete process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+    } else {
+      process.env.GOOGLE_SERVICE_ACCOUNT_JSON = original;
+    }
+  });
+  assert.deepEqual(await readServiceAccount({}), expected);
+});
+
+test('createAccessToken reuses cached tokens in memory and on disk', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const tokenCacheFile = path.join(dir, 'google-token.json');
+  const serviceAccount = {
+    clientEmail: 'indexer@example.iam.gserviceaccount.com',
+    privateKey: privateKeyPem,
+    tokenUri: 'https://oauth2.googleapis.com/token',
+  };
+
+  let tokenRequests = 0;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    tokenRequests += 1;
+    return new Response(JSON.stringify({ access_token: `token-${tokenRequests}`, expires_in: 3599 }), { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+    clearAccessTokenCache();
+  });
+
+  assert.equal(await createAccessToken(serviceAccount, { tokenCacheFile }), 'token-1');
+  assert.equal(await createAccessToken(serviceAccount, { tokenCacheFile }), 'token-1');
+  clearAccessTokenCache();
+  assert.equal(await createAccessToken(serviceAccount, { tokenCacheFile }), 'token-1');
+  assert.equal(tokenRequests, 1);
+
+  clearAccessTokenCache();
+  assert.equal(await createAccessToken(serviceAccount), 'token-2');
+});
@@ -0,0 +1,267 @@
+import { createSign } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fetchWithRetry } from './retry';
+import type { RetryPolicy } from './retry';
+
+const GOOGLE_INDEXING_SCOPE = 'https://www.googleapis.com/auth/indexing';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+/** Environment variable holding the service account JSON, either raw or base64 encoded. */
+export const GOOGLE_SERVICE_ACCOUNT_JSON_ENV = 'GOOGLE_SERVICE_ACCOUNT_JSON';
+
+// Tokens are refreshed slightly before they expire so that requests in flight do not fail.
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * Fields of a Google service account key file used to request access tokens.
+ */
+export interface GoogleServiceAccountCredentials {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+export interface GoogleCredentialsOptions {
+  /**
+   * Absolute or relative path to the Google service account JSON credentials.
+   */
+  serviceAccountPath?: string;
+  /**
+   * Service account credentials as an object, a JSON string or a base64 encoded JSON string. Takes precedence
+   * over `serviceAccountPath`. When neither is set, the `GOOGLE_SERVICE_ACCOUNT_JSON` environment variable is used.
+   */
+  serviceAccount?: GoogleServiceAccountCredentials | string;
+  /**
+   * Optional file used to cache access tokens between processes (for example between CLI runs). Tokens are
+   * always cached in memory for the lifetime of the process.
+   */
+  tokenCacheFile?: string;
+}
+
+export interface ServiceAccount {
+  clientEmail: string;
+  privateKey: string;
+  tokenUri: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+function base64UrlEncode(input: Buffer | string): string {
+  const buffer = Buffer.isBuffer(input) ? input : Buffer.from(input);
+  return buffer
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/g, '');
+}
+
+function parseServiceAccount(parsed: any, source: string): ServiceAccount {
+  const clientEmail = parsed?.client_email;
+  // Private keys stored in environment variables often have their newlines escaped.
+  const privateKey = typeof parsed?.private_key === 'string' ? parsed.private_key.replace(/\\n/g, '\n') : undefined;
+  const tokenUri = parsed?.token_uri ?? GOOGLE_TOKEN_URL;
+
+  if (typeof clientEmail !== 'string' || !clientEmail) {
+    throw new Error(`Google service account JSON ${source} is missing "client_email".`);
+  }
+  if (typeof privateKey !== 'string' || !privateKey) {
+    throw new Error(`Google service account JSON ${source} is missing "private_key".`);
+  }
+  if (typeof tokenUri !== 'string' || !tokenUri) {
+    throw new Error(`Google service account JSON ${source} is missing "token_uri".`);
+  }
+
+  return { clientEmail, privateKey, tokenUri };
+}
+
+function parseServiceAccountString(value: string, source: string): ServiceAccount {
+  const trimmed = value.trim();
+  const json = trimmed.startsWith('{') ? trimmed : Buffer.from(trimmed, 'base64').toString('utf8');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse Google service account JSON ${source} (expected JSON or base64 encoded JSON): ${(error as Error).message}`,
+    );
+  }
+  return parseServiceAccount(parsed, source);
+}
+
+/**
+ * Resolves service account credentials from the `serviceAccount` option, the `serviceAccountPath` file or the
+ * `GOOGLE_SERVICE_ACCOUNT_JSON` environment variable, in that order.
+ */
+export async function readServiceAccount(options: GoogleCredentialsOptions): Promise<ServiceAccount> {
+  const { serviceAccount, serviceAccountPath } = options;
+  if (serviceAccount && typeof serviceAccount === 'object') {
+    return parseServiceAccount(serviceAccount, 'passed as `serviceAccount`');
+  }
+  if (typeof serviceAccount === 'string' && serviceAccount) {
+    return parseServiceAccountString(serviceAccount, 'passed as `serviceAccount`');
+  }
+  if (serviceAccountPath) {
+    const resolvedPath = path.resolve(serviceAccountPath);
+    const contents = await fs.readFile(resolvedPath, 'utf8');
+    let parsed: any;
+    try {
+      parsed = JSON.parse(contents);
+    } catch (error) {
+      throw new Error(`Failed to parse Google service account JSON at ${resolvedPath}: ${(error as Error).message}`);
+    }
+    return parseServiceAccount(parsed, `at ${resolvedPath}`);
+  }
+  const fromEnv = process.env[GOOGLE_SERVICE_ACCOUNT_JSON_ENV];
+  if (fromEnv) {
+    return parseServiceAccountString(fromEnv, `in ${GOOGLE_SERVICE_ACCOUNT_JSON_ENV}`);
+  }
+  throw new Error(
+    `\`serviceAccountPath\` or \`serviceAccount\` must be provided (or set ${GOOGLE_SERVICE_ACCOUNT_JSON_ENV}).`,
+  );
+}
+
+function isFresh(token: CachedToken | undefined, now: number): token is CachedToken {
+  return Boolean(token && token.expiresAt - TOKEN_EXPIRY_MARGIN_MS > now);
+}
+
+async function readTokenCacheFile(filePath: string): Promise<Record<string, CachedToken>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(path.resolve(filePath), 'utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`Ignoring Google token cache at ${path.resolve(filePath)} (${error?.message ?? error}).`);
+    }
+    return {};
+  }
+}
+
+async function writeTokenCacheFile(filePath: string, cacheKey: string, token: CachedToken): Promise<void> {
+  const resolvedPath = path.resolve(filePath);
+  const now = Date.now();
+  const entries = Object.entries(await readTokenCacheFile(filePath)).filter(([, cached]) => isFresh(cached, now));
+  const contents = Object.fromEntries([...entries, [cacheKey, token]]);
+  await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+  // Access tokens grant access to the Indexing API, so the cache is only readable by the current user.
+  await fs.writeFile(resolvedPath, `${JSON.stringify(contents, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+}
+
+/**
+ * Creates the signed JWT that is exchanged for an access token. Signing happens offline, so this also checks
+ * that the private key is usable.
+ */
+export function createSignedJwt(serviceAccount: ServiceAccount): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const payload = {
+    iss: serviceAccount.clientEmail,
+    scope: GOOGLE_INDEXING_SCOPE,
+    aud: serviceAccount.tokenUri,
+    exp: now + 3600,
+    iat: now,
+  };
+
+  const encodedHeader = base64UrlEncode(JSON.stringify(header));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const message = `${encodedHeader}.${encodedPayload}`;
+
+  const signer = createSign('RSA-SHA256');
+  signer.update(message);
+  signer.end();
+  const signature = signer.sign(serviceAccount.privateKey);
+  const encodedSignature = base64UrlEncode(signature);
+  return `${message}.${encodedSignature}`;
+}
+
+async function requestAccessToken(serviceAccount: ServiceAccount, retry?: RetryPolicy | false): Promise<CachedToken> {
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = createSignedJwt(serviceAccount);
+
+  const body = new URLSearchParams({
+    grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+    assertion,
+  });
+
+  const { response, error, attempts } = await fetchWithRetry(
+    serviceAccount.tokenUri,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: body.toString(),
+    },
+    retry,
+  );
+  const attemptsLabel = attempts > 1 ? ` after ${attempts} attempts` : '';
+  if (!response) {
+    throw new Error(`Google OAuth token request failed${attemptsLabel}: ${error?.message ?? 'no response'}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(
+      `Google OAuth token request failed with status ${response.status}${attemptsLabel}: ${text || 'no response body'}`,
+    );
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to parse Google OAuth token response: ${(error as Error).message}`);
+  }
+
+  const accessToken = parsed?.access_token;
+  if (typeof accessToken !== 'string' || !accessToken) {
+    throw new Error('Google OAuth token response did not include an "access_token".');
+  }
+  const expiresIn = typeof parsed?.expires_in === 'number' && parsed.expires_in > 0 ? parsed.expires_in : 3600;
+
+  return { accessToken, expiresAt: now * 1000 + expiresIn * 1000 };
+}
+
+/**
+ * Returns an access token for the Indexing API, reusing a cached token until it is about to expire.
+ */
+export async function createAccessToken(
+  serviceAccount: ServiceAccount,
+  options: { retry?: RetryPolicy | false; tokenCacheFile?: string } = {},
+): Promise<string> {
+  const { retry, tokenCacheFile } = options;
+  const cacheKey = `${serviceAccount.clientEmail} ${serviceAccount.tokenUri}`;
+  const now = Date.now();
+
+  const cached = tokenCache.get(cacheKey);
+  if (isFresh(cached, now)) {
+    return cached.accessToken;
+  }
+  if (tokenCacheFile) {
+    const stored = (await readTokenCacheFile(tokenCacheFile))[cacheKey];
+    if (isFresh(stored, now) && typeof stored.accessToken === 'string') {
+      tokenCache.set(cacheKey, stored);
+      return stored.accessToken;
+    }
+  }
+
+  const token = await requestAccessToken(serviceAccount, retry);
+  tokenCache.set(cacheKey, token);
+  if (tokenCacheFile) {
+    await writeTokenCacheFile(tokenCacheFile, cacheKey, token);
+  }
+  return token.accessToken;
+}
+
+/**
+ * Forgets the access tokens cached in memory. Mostly useful in tests.
+ */
+export function clearAccessTokenCache(): void {
+  tokenCache.clear();
+}
@@ -0,0 +1,106 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { createBatchRequestBody, parseBatchResponse } from './google-batch';
+import { submitToGoogleIndexing } from './google-indexing';
+
+test('createBatchRequestBody serializes every request as an application/http part', () => {
+  const body = createBatchRequestBody(
+    [{ id: 'item-1', method: 'POST', path: '/v3/urlNotifications:publish', body: { url: 'https://example.com/' } }],
+    'batch_test',
+  );
+
+  assert.equal(
+    body,
+    '--batch_test\r\n' +
+      'Content-Type: application/http\r\n' +
+      'Content-ID: <item-1>\r\n\r\n' +
+      'POST /v3/urlNotifications:publish\r\n' +
+      'Content-Type: application/json\r\n' +
+      'Content-Length: 30\r\n\r\n' +
+      '{"url":"https://example.com/"}\r\n' +
+      '--batch_test--\r\n',
+  );
+});
+
+test('parseBatchResponse maps response parts to request IDs', () => {
+  const text =
+    '--batch_abc\r\n' +
+    'Content-Type: application/http\r\n' +
+    'Content-ID: <response-item-1>\r\n\r\n' +
+    'HTTP/1.1 200 OK\r\n' +
+    'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
+    '{"urlNotificationMetadata":{}}\r\n' +
+    '--batch_abc\r\n' +
+    'Content-Type: application/http\r\n' +
+    'Content-ID: <response-item-2>\r\n\r\n' +
+    'HTTP/1.1 403 Forbidden\r\n\r\n' +
+    '{"error":{"code":403}}\r\n' +
+    '--batch_abc--\r\n';
+
+  const parts = parseBatchResponse('multipart/mixed; boundary=batch_abc', text);
+
+  assert.deepEqual(Object.fromEntries(parts ?? []), {
+    'item-1': { status: 200, body: '{"urlNotificationMetadata":{}}' },
+    'item-2': { status: 403, body: '{"error":{"code":403}}' },
+  });
+  assert.equal(parseBatchResponse('application/json', '{}'), undefined);
+});
+
+test('submitToGoogleIndexing sends notifications missing from a batch response one by one', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const serviceAccountPath = path.join(dir, 'service-account.json');
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  await fs.writeFile(
+    serviceAccountPath,
+    JSON.stringify({
+      client_email: 'indexer@example.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    }),
+  );
+
+  const requests: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (endpoint: string, init: RequestInit) => {
+    requests.push(endpoint);
+    if (endpoint === 'https://oauth2.googleapis.com/token') {
+      return new Response(JSON.stringify({ access_token: 'token' }), { status: 200 });
+    }
+    if (endpoint === 'https://indexing.googleapis.com/batch') {
+      return new Response(
+        '--batch_res\r\nContent-Type: application/http\r\nContent-ID: <response-item-1>\r\n\r\n' +
+          'HTTP/1.1 200 OK\r\n\r\n{}\r\n--batch_res--\r\n',
+        { status: 200, headers: { 'Content-Type': 'multipart/mixed; boundary=batch_res' } },
+      );
+    }
+    return new Response(JSON.stringify({ single: JSON.parse(init.body as string).url }), { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const result = await submitToGoogleIndexing({
+    baseUrl: 'https://example.com',
+    serviceAccountPath,
+    stateFile: path.join(dir, 'state.json'),
+    urls: ['https://example.com/a', 'https://example.com/b'],
+  });
+
+  assert.deepEqual(requests, [
+    'https://oauth2.googleapis.com/token',
+    'https://indexing.googleapis.com/batch',
+    'https://indexing.googleapis.com/v3/urlNotifications:publish',
+  ]);
+  assert.deepEqual(
+    result.responses.map((response) => [response.url, response.ok, response.body]),
+    [
+      ['https://example.com/a', true, '{}'],
+      ['https://example.com/b', true, '{"single":"https://example.com/b"}'],
+    ],
+  );
+});
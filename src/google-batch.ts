@@ -0,0 +1,71 @@
+import { randomBytes } from 'node:crypto';
+
+export interface BatchRequestPart {
+  /** Identifier echoed back in the `Content-ID` of the matching response part */
+  id: string;
+  method: string;
+  /** Path of the request relative to the API host, e.g. `/v3/urlNotifications:publish` */
+  path: string;
+  body: unknown;
+}
+
+export interface BatchResponsePart {
+  status: number;
+  body: string;
+}
+
+export function createBatchBoundary(): string {
+  return `batch_${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Serializes requests into a `multipart/mixed` body for Google's batch endpoints, where every part is an
+ * `application/http` request.
+ */
+export function createBatchRequestBody(parts: BatchRequestPart[], boundary: string): string {
+  let body = '';
+  for (const part of parts) {
+    const json = JSON.stringify(part.body);
+    body +=
+      `--${boundary}\r\n` +
+      'Content-Type: application/http\r\n' +
+      `Content-ID: <${part.id}>\r\n\r\n` +
+      `${part.method} ${part.path}\r\n` +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n` +
+      `${json}\r\n`;
+  }
+  return `${body}--${boundary}--\r\n`;
+}
+
+function splitHead(text: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(text);
+  if (!match) {
+    return { head: text, body: '' };
+  }
+  return { head: text.slice(0, match.index), body: text.slice(match.index + match[0].length) };
+}
+
+/**
+ * Parses a `multipart/mixed` batch response into the responses of its parts, keyed by the request ID.
+ * Google prefixes the IDs of response parts with `response-`. Returns `undefined` when the body is not a
+ * multipart response.
+ */
+export function parseBatchResponse(contentType: string | null, text: string): Map<string, BatchResponsePart> | undefined {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType ?? '')?.[1];
+  if (!boundary || !/^multipart\/mixed/i.test(contentType ?? '')) {
+    return undefined;
+  }
+
+  const parts = new Map<string, BatchResponsePart>();
+  for (const chunk of text.split(`--${boundary}`).slice(1)) {
+    if (chunk.startsWith('--')) break;
+    const { head, body: httpResponse } = splitHead(chunk.replace(/^\r?\n/, ''));
+    const contentId = /^content-id:\s*<?([^>\r\n]+)>?/im.exec(head)?.[1]?.trim();
+    const { head: responseHead, body } = splitHead(httpResponse);
+    const status = /^HTTP\/[\d.]+\s+(\d{3})/.exec(responseHead.trim())?.[1];
+    if (!contentId || !status) continue;
+    parts.set(contentId.replace(/^response-/, ''), { status: Number(status), body: body.replace(/\r?\n$/, '') });
+  }
+  return parts;
+}
@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { getGoogleIndexingStatus } from './google-indexing';
+
+test('getGoogleIndexingStatus reports the latest notifications per URL', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const serviceAccountPath = path.join(dir, 'service-account.json');
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  await fs.writeFile(
+    serviceAccountPath,
+    JSON.stringify({
+      client_email: 'indexer@example.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    }),
+  );
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (endpoint: string) => {
+    if (endpoint === 'https://oauth2.googleapis.com/token') {
+      return new Response(JSON.stringify({ access_token: 'token' }), { status: 200 });
+    }
+    const url = new URL(endpoint).searchParams.get('url');
+    if (url === 'https://example.com/new') {
+      return new Response('{"error":{"code":404}}', { status: 404 });
+    }
+    return new Response(
+      JSON.stringify({
+        url,
+        latestUpdate: { url, type: 'URL_UPDATED', notifyTime: '2024-05-01T10:00:00.000Z' },
+        latestRemove: { url, type: 'URL_DELETED', notifyTime: '2024-04-01T10:00:00.000Z' },
+      }),
+      { status: 200 },
+    );
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const statuses = await getGoogleIndexingStatus(['https://example.com/about', 'https://example.com/new'], {
+    serviceAccountPath,
+  });
+
+  assert.deepEqual(statuses, [
+    {
+      url: 'https://example.com/about',
+      status: 200,
+      ok: true,
+      latestUpdate: '2024-05-01T10:00:00.000Z',
+      latestRemove: '2024-04-01T10:00:00.000Z',
+    },
+    { url: 'https://example.com/new', status: 404, ok: true },
+  ]);
+});
@@ -1,27 +1,49 @@
-import { createSign } from 'node:crypto';
-import { promises as fs } from 'node:fs';
-import path from 'node:path';
-import { collectIndexableRoutes } from './indexnow';
+import { discoverRouteUrls } from './indexnow';
+import { planTrackedSubmission, readRouteLastModified, recordLastRun, updateSubmissionState } from './state';
+import type { RouteUrl, TrackedSubmission } from './state';
+import type { DynamicRouteResolver } from './dynamic-routes';
+import {
+  DEFAULT_GOOGLE_DAILY_QUOTA,
+  prioritizeNotifications,
+  readGoogleQuotaUsage,
+  writeGoogleQuotaUsage,
+} from './google-quota';
+import type { GoogleNotificationCandidate, GoogleUrlPriority } from './google-quota';
+import { fetchWithRetry } from './retry';
+import type { RetryPolicy } from './retry';
+import { createAccessToken, readServiceAccount } from './google-auth';
+import type { GoogleCredentialsOptions } from './google-auth';
+import { createBatchBoundary, createBatchRequestBody, parseBatchResponse } from './google-batch';
+import { SINCE_LAST_RUN, readSitemapUrls } from './sitemap';
+import { inspectRouteUrls } from './html-inspection';
+import { createRobotsTxtFilter } from './robots-txt';
+import { resolveNextBuildDir } from './build-output';
+import type { ExcludedUrl } from './html-inspection';
+import type { RoutingDecision } from './route-rules';
 
-const GOOGLE_INDEXING_SCOPE = 'https://www.googleapis.com/auth/indexing';
-const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
 const GOOGLE_INDEXING_ENDPOINT = 'https://indexing.googleapis.com/v3/urlNotifications:publish';
+const GOOGLE_INDEXING_PUBLISH_PATH = '/v3/urlNotifications:publish';
+const GOOGLE_INDEXING_BATCH_ENDPOINT = 'https://indexing.googleapis.com/batch';
+const GOOGLE_INDEXING_METADATA_ENDPOINT = 'https://indexing.googleapis.com/v3/urlNotifications/metadata';
+const MAX_NOTIFICATIONS_PER_BATCH = 100;
 
-type GoogleNotificationType = 'URL_UPDATED' | 'URL_DELETED';
+export type GoogleNotificationType = 'URL_UPDATED' | 'URL_DELETED';
 
-export interface SubmitToGoogleIndexingOptions {
+export interface SubmitToGoogleIndexingOptions extends GoogleCredentialsOptions {
   /**
    * Fully qualified base URL of your Next.js application (e.g. https://example.com)
    */
   baseUrl: string;
   /**
-   * Absolute or relative path to the Google service account JSON credentials.
+   * Directory that contains the compiled Next.js output. Defaults to `.next`. A standalone build
+   * (`.next/standalone`) is also accepted.
    */
-  serviceAccountPath: string;
+  nextBuildDir?: string;
   /**
-   * Directory that contains the compiled Next.js output. Defaults to `.next`.
+   * Static export directory (`output: 'export'`, usually `out`) to discover routes from instead of the build
+   * manifests. Every exported HTML page except the error pages is submitted.
    */
-  nextBuildDir?: string;
+  exportDir?: string;
   /**
    * Optional filter that can be used to remove URLs from the submission payload.
    */
@@ -38,28 +60,133 @@ export interface SubmitToGoogleIndexingOptions {
    * Optional explicit list of URLs to submit instead of discovering them from the Next.js build output.
    */
   urls?: string[];
+  /**
+   * Optional path to a local sitemap or sitemap index to read URLs from instead of scanning the Next.js
+   * build output. Gzipped sitemaps and the `.next/server/app/sitemap.xml.body` build artifact are supported.
+   */
+  sitemap?: string;
+  /**
+   * Only submit sitemap URLs whose `lastmod` is on or after this date. Pass `'last-run'` to use the start
+   * of the last accepted run recorded in the state file. URLs without `lastmod` are always submitted.
+   */
+  sitemapModifiedSince?: Date | string;
+  /**
+   * Optional callback that returns the concrete values for dynamic route patterns such as `/blog/[slug]`.
+   */
+  dynamicRouteResolver?: DynamicRouteResolver;
+  /**
+   * Inspect the prerendered HTML of discovered routes: `noindex` pages are skipped and pages with a canonical URL
+   * on the same host are submitted as that URL. Defaults to true. Ignored for explicit `urls` and sitemaps.
+   */
+  inspectHtml?: boolean;
+  /**
+   * Apply the redirects and rewrites of `routes-manifest.json` to discovered routes: permanently redirected routes
+   * are skipped and static rewrites are submitted under their public source. Defaults to true.
+   */
+  applyRoutingRules?: boolean;
+  /**
+   * Also submit the destination of each permanently redirected route. Defaults to false.
+   */
+  followRedirects?: boolean;
+  /**
+   * Leave out URLs that the site's robots.txt disallows for Googlebot. Defaults to true.
+   */
+  respectRobotsTxt?: boolean;
+  /**
+   * Path to the robots.txt to apply. Defaults to the built `app/robots.ts` output or `public/robots.txt`.
+   */
+  robotsTxt?: string;
+  /**
+   * Maximum number of publish requests per service account in a rolling 24-hour window. Defaults to 200, the
+   * default Indexing API quota. Notifications over the limit are queued in the state file and sent on the next
+   * run. Pass `false` to disable the quota ledger.
+   */
+  dailyQuota?: number | false;
+  /**
+   * Decides which notifications use the daily quota first: `'newest'` sends the most recently modified pages
+   * first, and a function returns a score for each notification (higher scores are sent first). By default,
+   * queued notifications are sent first, followed by the new ones in discovery order.
+   */
+  priority?: GoogleUrlPriority;
+  /**
+   * Maximum number of notifications sent in one request to the batch endpoint. Defaults to and is capped at 100.
+   * Use 1 to send every notification in its own request.
+   */
+  batchSize?: number;
+  /**
+   * Retry policy for the OAuth token request and publish calls (network errors, 429 and 5xx responses).
+   * Pass `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * When true, only routes that are new or whose prerendered output changed since the last accepted
+   * submission are sent. Ignored when explicit `urls` are provided.
+   */
+  changedOnly?: boolean;
+  /**
+   * When true, routes that were accepted in a previous build but no longer exist are sent as
+   * `URL_DELETED` notifications. Defaults to `changedOnly`, since both track the routes in the state file.
+   * Ignored when explicit `urls` are provided.
+   */
+  notifyRemoved?: boolean;
+  /**
+   * Location of the state file used by `changedOnly` and `notifyRemoved`.
+   * Defaults to `.nextjs-indexing-pack/state.json`.
+   */
+  stateFile?: string;
+}
+
+export interface GoogleIndexingResponse {
+  url: string;
+  /** Requests sent for this notification, including retries (for batched notifications, those of the batch) */
+  attempts: number;
+  status: number;
+  ok: boolean;
+  body?: string;
 }
 
 export interface SubmitToGoogleIndexingResult {
   /** URLs that were discovered in the Next.js build output */
   urls: string[];
   /** Result of the submission attempt for each URL */
-  responses: Array<{ url: string; status: number; ok: boolean; body?: string }>;
+  responses: GoogleIndexingResponse[];
+  /** URLs skipped because their prerendered output did not change (only set when `changedOnly` is enabled) */
+  unchangedUrls?: string[];
+  /** URLs of routes that disappeared since the previous build (only set when `notifyRemoved` is enabled) */
+  removedUrls?: string[];
+  /** URLs queued for the next run because the daily quota was exhausted */
+  queuedUrls?: string[];
+  /** Discovered URLs left out or replaced after inspecting the built HTML, with the reason */
+  excludedUrls?: ExcludedUrl[];
+  /** URLs left out because robots.txt disallows them for Googlebot */
+  disallowedUrls?: string[];
+  /** Discovered routes left out, added or replaced by the redirects and rewrites of the build, with the rule */
+  routingDecisions?: RoutingDecision[];
+  /** Quota usage of the service account after the run (not set when `dailyQuota` is `false`) */
+  quota?: { limit: number; used: number; remaining: number };
+  /** Why the quota ledger could not be written. The notifications in `responses` were still sent. */
+  quotaError?: string;
 }
 
-interface ServiceAccount {
-  clientEmail: string;
-  privateKey: string;
-  tokenUri: string;
+export interface GetGoogleIndexingStatusOptions extends GoogleCredentialsOptions {
+  /**
+   * Retry policy for the OAuth token request and metadata calls. Pass `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
 }
 
-function base64UrlEncode(input: Buffer | string): string {
-  const buffer = Buffer.isBuffer(input) ? input : Buffer.from(input);
-  return buffer
-    .toString('base64')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/g, '');
+export interface GoogleIndexingStatus {
+  url: string;
+  /** HTTP status of the metadata request. 404 means Google has not received any notification for the URL. */
+  status: number;
+  /** True when the metadata was read, including URLs Google has no notifications for */
+  ok: boolean;
+  /** ISO timestamp of the latest `URL_UPDATED` notification Google received */
+  latestUpdate?: string;
+  /** ISO timestamp of the latest `URL_DELETED` notification Google received */
+  latestRemove?: string;
+  /** Error message when the metadata could not be read */
+  error?: string;
 }
 
 function normalizeBaseUrl(baseUrl: string): string {
@@ -73,86 +200,101 @@ function normalizeBaseUrl(baseUrl: string): string {
   return `${url.origin}${pathname === '/' ? '' : pathname}`;
 }
 
-async function readServiceAccount(filePath: string): Promise<ServiceAccount> {
-  const resolvedPath = path.resolve(filePath);
-  const contents = await fs.readFile(resolvedPath, 'utf8');
-  let parsed: any;
+async function publishNotification(
+  candidate: GoogleNotificationCandidate,
+  accessToken: string,
+  retry?: RetryPolicy | false,
+): Promise<GoogleIndexingResponse> {
+  let attempts = 0;
   try {
-    parsed = JSON.parse(contents);
-  } catch (error) {
-    throw new Error(`Failed to parse Google service account JSON at ${resolvedPath}: ${(error as Error).message}`);
-  }
-
-  const clientEmail = parsed?.client_email;
-  const privateKey = parsed?.private_key;
-  const tokenUri = parsed?.token_uri ?? GOOGLE_TOKEN_URL;
-
-  if (typeof clientEmail !== 'string' || !clientEmail) {
-    throw new Error(`Google service account JSON at ${resolvedPath} is missing "client_email".`);
-  }
-  if (typeof privateKey !== 'string' || !privateKey) {
-    throw new Error(`Google service account JSON at ${resolvedPath} is missing "private_key".`);
-  }
-  if (typeof tokenUri !== 'string' || !tokenUri) {
-    throw new Error(`Google service account JSON at ${resolvedPath} is missing "token_uri".`);
+    const publishResult = await fetchWithRetry(
+      GOOGLE_INDEXING_ENDPOINT,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          url: candidate.url,
+          type: candidate.type,
+        }),
+      },
+      retry,
+    );
+    attempts = publishResult.attempts;
+    if (!publishResult.response) {
+      throw publishResult.error ?? new Error('Request failed.');
+    }
+    const bodyText = await publishResult.response.text();
+    return {
+      url: candidate.url,
+      attempts,
+      status: publishResult.response.status,
+      ok: publishResult.response.ok,
+      body: bodyText || undefined,
+    };
+  } catch (error: any) {
+    return {
+      url: candidate.url,
+      attempts,
+      status: 0,
+      ok: false,
+      body: error?.message,
+    };
   }
-
-  return { clientEmail, privateKey, tokenUri };
 }
 
-async function createAccessToken(serviceAccount: ServiceAccount): Promise<string> {
-  const now = Math.floor(Date.now() / 1000);
-  const header = { alg: 'RS256', typ: 'JWT' };
-  const payload = {
-    iss: serviceAccount.clientEmail,
-    scope: GOOGLE_INDEXING_SCOPE,
-    aud: serviceAccount.tokenUri,
-    exp: now + 3600,
-    iat: now,
-  };
-
-  const encodedHeader = base64UrlEncode(JSON.stringify(header));
-  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
-  const message = `${encodedHeader}.${encodedPayload}`;
-
-  const signer = createSign('RSA-SHA256');
-  signer.update(message);
-  signer.end();
-  const signature = signer.sign(serviceAccount.privateKey);
-  const encodedSignature = base64UrlEncode(signature);
-  const assertion = `${message}.${encodedSignature}`;
-
-  const body = new URLSearchParams({
-    grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
-    assertion,
-  });
-
-  const response = await fetch(serviceAccount.tokenUri, {
+/**
+ * Sends up to 100 notifications in a single `multipart/mixed` request. Returns the response of every part
+ * that could be matched to a notification, or `undefined` when the batch request itself failed.
+ */
+async function publishBatch(
+  candidates: GoogleNotificationCandidate[],
+  accessToken: string,
+  retry?: RetryPolicy | false,
+): Promise<Map<string, GoogleIndexingResponse> | undefined> {
+  const boundary = createBatchBoundary();
+  const parts = candidates.map((candidate, index) => ({
+    id: `item-${index + 1}`,
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: body.toString(),
-  });
+    path: GOOGLE_INDEXING_PUBLISH_PATH,
+    body: { url: candidate.url, type: candidate.type },
+  }));
 
-  const text = await response.text();
-  if (!response.ok) {
-    throw new Error(`Google OAuth token request failed with status ${response.status}: ${text || 'no response body'}`);
-  }
-
-  let parsed: any;
-  try {
-    parsed = JSON.parse(text);
-  } catch (error) {
-    throw new Error(`Failed to parse Google OAuth token response: ${(error as Error).message}`);
+  const { response, attempts } = await fetchWithRetry(
+    GOOGLE_INDEXING_BATCH_ENDPOINT,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': `multipart/mixed; boundary=${boundary}`,
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: createBatchRequestBody(parts, boundary),
+    },
+    retry,
+  );
+  if (!response?.ok) {
+    return undefined;
   }
-
-  const accessToken = parsed?.access_token;
-  if (typeof accessToken !== 'string' || !accessToken) {
-    throw new Error('Google OAuth token response did not include an "access_token".');
+  const responseParts = parseBatchResponse(response.headers.get('content-type'), await response.text());
+  if (!responseParts) {
+    return undefined;
   }
 
-  return accessToken;
+  const responses = new Map<string, GoogleIndexingResponse>();
+  parts.forEach((part, index) => {
+    const responsePart = responseParts.get(part.id);
+    if (!responsePart) return;
+    responses.set(candidates[index].url, {
+      url: candidates[index].url,
+      attempts,
+      status: responsePart.status,
+      ok: responsePart.status >= 200 && responsePart.status < 300,
+      body: responsePart.body || undefined,
+    });
+  });
+  return responses;
 }
 
 export async function submitToGoogleIndexing(
@@ -160,24 +302,63 @@ export async function submitToGoogleIndexing(
 ): Promise<SubmitToGoogleIndexingResult> {
   const {
     baseUrl,
-    serviceAccountPath,
-    nextBuildDir = '.next',
+    exportDir,
     urlFilter,
     dryRun,
     notificationType = 'URL_UPDATED',
+    dailyQuota = DEFAULT_GOOGLE_DAILY_QUOTA,
+    priority,
+    batchSize = MAX_NOTIFICATIONS_PER_BATCH,
+    retry,
     urls: explicitUrls,
+    sitemap,
+    sitemapModifiedSince,
+    dynamicRouteResolver,
+    inspectHtml = true,
+    applyRoutingRules,
+    followRedirects,
+    respectRobotsTxt = true,
+    robotsTxt,
+    changedOnly,
+    notifyRemoved = changedOnly,
+    stateFile,
+    tokenCacheFile,
   } = options;
+  const startedAt = new Date();
 
   if (!baseUrl) {
     throw new Error('`baseUrl` must be provided.');
   }
-  if (!serviceAccountPath) {
-    throw new Error('`serviceAccountPath` must be provided.');
+  if (dailyQuota !== false && (!Number.isInteger(dailyQuota) || dailyQuota < 1)) {
+    throw new Error('`dailyQuota` must be a positive integer or false.');
   }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('`batchSize` must be a positive integer.');
+  }
+  const resolvedBatchSize = Math.min(batchSize, MAX_NOTIFICATIONS_PER_BATCH);
 
   const normalizedBase = normalizeBaseUrl(baseUrl);
+  // Resolved on first use, so explicit URLs only read the build output for robots.txt, and not at all with
+  // `robotsTxt`, a robots.txt in `exportDir` or `respectRobotsTxt: false`.
+  let resolvingBuildDir: Promise<string> | undefined;
+  const getNextBuildDir = () => (resolvingBuildDir ??= resolveNextBuildDir(options.nextBuildDir));
 
   let urls: string[];
+  let selectedEntries: RouteUrl[] = [];
+  let tracked: TrackedSubmission | undefined;
+  let excludedUrls: ExcludedUrl[] | undefined;
+  let routingDecisions: RoutingDecision[] | undefined;
+  const robotsFilter = respectRobotsTxt
+    ? await createRobotsTxtFilter('google', { nextBuildDir: getNextBuildDir, exportDir, robotsTxt })
+    : undefined;
+  const disallowedUrls: string[] = [];
+  const isAllowedByRobots = (urlToCheck: string): boolean => {
+    if (!robotsFilter || robotsFilter(urlToCheck)) {
+      return true;
+    }
+    disallowedUrls.push(urlToCheck);
+    return false;
+  };
   if (explicitUrls?.length) {
     const seen = new Set<string>();
     urls = [];
@@ -197,56 +378,259 @@ export async function submitToGoogleIndexing(
         continue;
       }
       seen.add(normalizedUrl);
-      urls.push(normalizedUrl);
+      if (isAllowedByRobots(normalizedUrl)) {
+        urls.push(normalizedUrl);
+      }
     }
   } else {
-    const routes = await collectIndexableRoutes(nextBuildDir);
-    urls = routes
-      .map((route) => (route === '/' ? normalizedBase : `${normalizedBase}${route}`))
-      .filter((routeUrl) => (urlFilter ? urlFilter(routeUrl) : true));
+    const nextBuildDir = await getNextBuildDir();
+    let discovered: RouteUrl[];
+    let candidates: RouteUrl[];
+    if (sitemap) {
+      const sitemapUrls = await readSitemapUrls('google', sitemap, sitemapModifiedSince, stateFile);
+      discovered = sitemapUrls.discovered;
+      candidates = sitemapUrls.modified;
+    } else {
+      const discovery = await discoverRouteUrls(normalizedBase, nextBuildDir, {
+        dynamicRouteResolver,
+        exportDir,
+        applyRoutingRules,
+        followRedirects,
+      });
+      discovered = discovery.entries;
+      routingDecisions = discovery.routingDecisions;
+      if (inspectHtml) {
+        const inspection = await inspectRouteUrls(discovered, { nextBuildDir, exportDir });
+        discovered = inspection.entries;
+        excludedUrls = inspection.excluded;
+      }
+      candidates = discovered;
+    }
+    const entries = candidates.filter(
+      (entry) => (urlFilter ? urlFilter(entry.url) : true) && isAllowedByRobots(entry.url),
+    );
+    if (changedOnly || notifyRemoved) {
+      tracked = await planTrackedSubmission('google', discovered, entries, {
+        nextBuildDir,
+        exportDir,
+        baseUrl: normalizedBase,
+        changedOnly,
+        notifyRemoved,
+        stateFile,
+      });
+      selectedEntries = tracked.entries;
+    } else {
+      selectedEntries = entries;
+    }
+    urls = selectedEntries.map((entry) => entry.url);
   }
 
   const result: SubmitToGoogleIndexingResult = {
     urls,
     responses: [],
   };
+  if (routingDecisions?.length) {
+    result.routingDecisions = routingDecisions;
+  }
+  if (excludedUrls?.length) {
+    result.excludedUrls = excludedUrls;
+  }
+  if (disallowedUrls.length) {
+    result.disallowedUrls = disallowedUrls;
+  }
+  if (tracked && changedOnly) {
+    result.unchangedUrls = tracked.unchanged;
+  }
+  if (tracked && notifyRemoved) {
+    result.removedUrls = tracked.removed;
+  }
 
   if (dryRun) {
     return result;
   }
+  const advancesLastRun = Boolean(sitemap) && sitemapModifiedSince === SINCE_LAST_RUN && !explicitUrls?.length;
+  const serviceAccount = await readServiceAccount(options);
+  const usage = dailyQuota === false ? undefined : await readGoogleQuotaUsage(serviceAccount.clientEmail, stateFile, startedAt);
 
-  const serviceAccount = await readServiceAccount(serviceAccountPath);
-  const accessToken = await createAccessToken(serviceAccount);
-
+  const entriesByUrl = new Map(selectedEntries.map((entry) => [entry.url, entry]));
+  const candidates: GoogleNotificationCandidate[] = [];
   for (const urlToNotify of urls) {
+    const entry = entriesByUrl.get(urlToNotify);
+    const candidate: GoogleNotificationCandidate = { url: urlToNotify, type: notificationType };
+    if (entry) {
+      candidate.route = entry.route;
+      if (entry.lastmod) {
+        candidate.lastModified = new Date(entry.lastmod);
+      } else if (priority && !sitemap) {
+        candidate.lastModified = await readRouteLastModified(await getNextBuildDir(), entry.route, exportDir);
+      }
+    }
+    candidates.push(candidate);
+  }
+  for (const removedUrl of tracked?.removed ?? []) {
+    candidates.push({ url: removedUrl, type: 'URL_DELETED' });
+  }
+  // Notifications deferred by an earlier run keep their place in the queue, even when they are rediscovered.
+  const fresh = new Map(candidates.map((candidate) => [candidate.url, candidate]));
+  for (const queued of usage?.queue ?? []) {
+    const rediscovered = fresh.get(queued.url);
+    if (rediscovered) {
+      rediscovered.queuedAt = queued.queuedAt;
+      rediscovered.lastModified ??= queued.lastModified;
+    } else {
+      candidates.push(queued);
+    }
+  }
+
+  if (!candidates.length) {
+    if (advancesLastRun) {
+      await recordLastRun('google', startedAt, stateFile);
+    }
+    return result;
+  }
+
+  const notifications = prioritizeNotifications(candidates, priority);
+  let accessToken: string | undefined;
+  let throttled = false;
+
+  for (let index = 0; index < notifications.length && !throttled; ) {
+    const available =
+      usage && dailyQuota !== false ? dailyQuota - usage.requests.length : Number.POSITIVE_INFINITY;
+    if (available <= 0) break;
+    const chunk = notifications.slice(index, index + Math.min(resolvedBatchSize, available));
+    index += chunk.length;
+    accessToken ??= await createAccessToken(serviceAccount, { retry, tokenCacheFile });
+
+    const batchResponses = chunk.length > 1 ? await publishBatch(chunk, accessToken, retry) : undefined;
+    for (const candidate of chunk) {
+      const batched = batchResponses?.get(candidate.url);
+      if (!batched && throttled) break;
+      // Notifications missing from the batch response, or every notification when the batch failed, are sent one by one.
+      const response = batched ?? (await publishNotification(candidate, accessToken, retry));
+      result.responses.push(response);
+      if (usage) {
+        const sentAt = new Date();
+        for (let attempt = 0; attempt < response.attempts; attempt += 1) {
+          usage.requests.push(sentAt);
+        }
+        // A 429 means Google's own quota counter is exhausted, whatever the local ledger says.
+        throttled ||= response.status === 429;
+      }
+    }
+  }
+
+  if (usage && dailyQuota !== false) {
+    const responded = new Map(result.responses.map((response) => [response.url, response]));
+    const deferred = notifications.filter((candidate) => {
+      const response = responded.get(candidate.url);
+      return !response || response.status === 429;
+    });
+    result.quota = {
+      limit: dailyQuota,
+      used: usage.requests.length,
+      remaining: Math.max(0, dailyQuota - usage.requests.length),
+    };
+    // The notifications were sent either way, so a ledger that cannot be written (for example on a read-only
+    // filesystem) only costs the deferred notifications their place in the queue.
     try {
-      const response = await fetch(GOOGLE_INDEXING_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          url: urlToNotify,
-          type: notificationType,
-        }),
-      });
-      const bodyText = await response.text();
-      result.responses.push({
-        url: urlToNotify,
-        status: response.status,
-        ok: response.ok,
-        body: bodyText || undefined,
-      });
+      await writeGoogleQuotaUsage(serviceAccount.clientEmail, { requests: usage.requests, queue: deferred }, stateFile);
+      result.queuedUrls = deferred.map((candidate) => candidate.url);
     } catch (error: any) {
-      result.responses.push({
-        url: urlToNotify,
-        status: 0,
-        ok: false,
-        body: error?.message,
-      });
+      result.quotaError = `Unable to record the Google Indexing quota usage: ${error?.message ?? error}`;
     }
   }
 
+  if (tracked) {
+    const accepted = new Set(result.responses.filter((response) => response.ok).map((response) => response.url));
+    await updateSubmissionState(
+      'google',
+      {
+        accepted: tracked.entries.filter((entry) => accepted.has(entry.url)),
+        removed: tracked.removed.filter((removedUrl) => accepted.has(removedUrl)),
+      },
+      stateFile,
+    );
+  }
+  // Advancing the last run after a partial failure would hide the failed URLs from the next `last-run` filter.
+  if (advancesLastRun && result.responses.every((response) => response.ok)) {
+    await recordLastRun('google', startedAt, stateFile);
+  }
+
   return result;
 }
+
+async function readUrlStatus(urlToCheck: string, accessToken: string, retry?: RetryPolicy | false): Promise<GoogleIndexingStatus> {
+  const { response, error } = await fetchWithRetry(
+    `${GOOGLE_INDEXING_METADATA_ENDPOINT}?url=${encodeURIComponent(urlToCheck)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    },
+    retry,
+  );
+  if (!response) {
+    return { url: urlToCheck, status: 0, ok: false, error: error?.message ?? 'Request failed.' };
+  }
+
+  const text = await response.text();
+  if (response.status === 404) {
+    return { url: urlToCheck, status: 404, ok: true };
+  }
+  if (!response.ok) {
+    return {
+      url: urlToCheck,
+      status: response.status,
+      ok: false,
+      error: text || `Request failed with status ${response.status}.`,
+    };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    return {
+      url: urlToCheck,
+      status: response.status,
+      ok: false,
+      error: `Failed to parse Google Indexing metadata response: ${(parseError as Error).message}`,
+    };
+  }
+  const status: GoogleIndexingStatus = { url: urlToCheck, status: response.status, ok: true };
+  if (typeof parsed?.latestUpdate?.notifyTime === 'string') {
+    status.latestUpdate = parsed.latestUpdate.notifyTime;
+  }
+  if (typeof parsed?.latestRemove?.notifyTime === 'string') {
+    status.latestRemove = parsed.latestRemove.notifyTime;
+  }
+  return status;
+}
+
+/**
+ * Reads the latest notifications Google received for each URL from the `urlNotifications/metadata` endpoint.
+ */
+export async function getGoogleIndexingStatus(
+  urls: string[],
+  options: GetGoogleIndexingStatusOptions,
+): Promise<GoogleIndexingStatus[]> {
+  const { retry, tokenCacheFile } = options;
+  for (const urlToCheck of urls) {
+    try {
+      new URL(urlToCheck);
+    } catch {
+      throw new Error(`Invalid URL provided to getGoogleIndexingStatus: ${urlToCheck}`);
+    }
+  }
+  if (!urls.length) {
+    return [];
+  }
+
+  const serviceAccount = await readServiceAccount(options);
+  const accessToken = await createAccessToken(serviceAccount, { retry, tokenCacheFile });
+  const statuses: GoogleIndexingStatus[] = [];
+  for (const urlToCheck of urls) {
+    statuses.push(await readUrlStatus(urlToCheck, accessToken, retry));
+  }
+  return statuses;
+}
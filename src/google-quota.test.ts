@@ -0,0 +1,131 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { submitToGoogleIndexing } from './google-indexing';
+import { prioritizeNotifications, readGoogleQuotaUsage, writeGoogleQuotaUsage } from './google-quota';
+
+test('prioritizeNotifications sends queued notifications first unless a priority is given', () => {
+  const candidates = [
+    { url: 'https://example.com/old', type: 'URL_UPDATED' as const, lastModified: new Date('2024-01-01') },
+    { url: 'https://example.com/new', type: 'URL_UPDATED' as const, lastModified: new Date('2024-03-01') },
+    { url: 'https://example.com/queued', type: 'URL_UPDATED' as const, queuedAt: new Date('2024-02-01') },
+  ];
+
+  assert.deepEqual(
+    prioritizeNotifications(candidates).map((candidate) => candidate.url),
+    ['https://example.com/queued', 'https://example.com/old', 'https://example.com/new'],
+  );
+  assert.deepEqual(
+    prioritizeNotifications(candidates, 'newest').map((candidate) => candidate.url),
+    ['https://example.com/new', 'https://example.com/old', 'https://example.com/queued'],
+  );
+  assert.deepEqual(
+    prioritizeNotifications(candidates, (candidate) => (candidate.url.endsWith('/old') ? 1 : 0)).map(
+      (candidate) => candidate.url,
+    ),
+    ['https://example.com/old', 'https://example.com/queued', 'https://example.com/new'],
+  );
+});
+
+test('the quota ledger only counts requests from the last 24 hours', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const statePath = path.join(dir, 'state.json');
+  const now = new Date('2024-01-02T12:00:00Z');
+
+  await writeGoogleQuotaUsage(
+    'indexer@example.iam.gserviceaccount.com',
+    { requests: [new Date('2024-01-01T11:00:00Z'), new Date('2024-01-02T10:00:00Z')], queue: [] },
+    statePath,
+    new Date('2024-01-02T10:00:00Z'),
+  );
+  const usage = await readGoogleQuotaUsage('indexer@example.iam.gserviceaccount.com', statePath, now);
+
+  assert.deepEqual(usage.requests, [new Date('2024-01-02T10:00:00Z')]);
+});
+
+test('submitToGoogleIndexing queues URLs over the daily quota for the next run', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const stateFile = path.join(dir, 'state.json');
+  const serviceAccountPath = path.join(dir, 'service-account.json');
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  await fs.writeFile(
+    serviceAccountPath,
+    JSON.stringify({
+      client_email: 'indexer@example.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    }),
+  );
+
+  const published: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (endpoint: string, init: RequestInit) => {
+    if (endpoint === 'https://oauth2.googleapis.com/token') {
+      return new Response(JSON.stringify({ access_token: 'token' }), { status: 200 });
+    }
+    published.push(JSON.parse(init.body as string).url);
+    return new Response('{}', { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const options = { baseUrl: 'https://example.com', serviceAccountPath, stateFile, dailyQuota: 2, batchSize: 1 };
+  const first = await submitToGoogleIndexing({
+    ...options,
+    urls: ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'],
+  });
+  assert.deepEqual(published, ['https://example.com/a', 'https://example.com/b']);
+  assert.deepEqual(first.queuedUrls, ['https://example.com/c']);
+  assert.deepEqual(first.quota, { limit: 2, used: 2, remaining: 0 });
+
+  const second = await submitToGoogleIndexing({ ...options, urls: ['https://example.com/d'] });
+  assert.equal(second.responses.length, 0);
+  assert.deepEqual(second.queuedUrls, ['https://example.com/c', 'https://example.com/d']);
+});
+
+test('submitToGoogleIndexing reports the delivered notifications when the quota ledger cannot be written', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const stateFile = path.join(dir, 'state.json');
+  const serviceAccountPath = path.join(dir, 'service-account.json');
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  await fs.writeFile(
+    serviceAccountPath,
+    JSON.stringify({
+      client_email: 'indexer@example.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    }),
+  );
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (endpoint: string) => {
+    if (endpoint === 'https://oauth2.googleapis.com/token') {
+      return new Response(JSON.stringify({ access_token: 'token' }), { status: 200 });
+    }
+    // A directory in place of the state file makes the ledger write fail after the notification was sent.
+    await fs.mkdir(stateFile, { recursive: true });
+    return new Response('{}', { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const result = await submitToGoogleIndexing({
+    baseUrl: 'https://example.com',
+    serviceAccountPath,
+    stateFile,
+    urls: ['https://example.com/a'],
+  });
+  assert.deepEqual(
+    result.responses.map((response) => [response.url, response.ok]),
+    [['https://example.com/a', true]],
+  );
+  assert.equal(result.queuedUrls, undefined);
+  assert.match(result.quotaError ?? '', /^Unable to record the Google Indexing quota usage: /);
+});
@@ -0,0 +1,111 @@
+import { readSubmissionState, writeSubmissionState } from './state';
+import type { QueuedGoogleNotification } from './state';
+
+/** Default number of publish requests the Google Indexing API accepts per project and day. */
+export const DEFAULT_GOOGLE_DAILY_QUOTA = 200;
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface GoogleNotificationCandidate {
+  url: string;
+  type: QueuedGoogleNotification['type'];
+  /** Route in the build output, when the URL was discovered from it */
+  route?: string;
+  /** Last modification date of the page, when known */
+  lastModified?: Date;
+  /** When the notification was deferred by an earlier run, if it was */
+  queuedAt?: Date;
+}
+
+/**
+ * Decides which notifications use the daily quota first. `'newest'` sends the most recently modified pages
+ * first; a function returns a score for each notification, and higher scores are sent first.
+ */
+export type GoogleUrlPriority = 'newest' | ((candidate: GoogleNotificationCandidate) => number);
+
+export interface GoogleQuotaUsage {
+  /** Publish requests sent during the last 24 hours, oldest first */
+  requests: Date[];
+  /** Notifications deferred by earlier runs */
+  queue: GoogleNotificationCandidate[];
+}
+
+/**
+ * Reads the publish requests `account` sent during the rolling 24-hour window ending at `now`, together
+ * with the notifications that earlier runs deferred.
+ */
+export async function readGoogleQuotaUsage(account: string, statePath?: string, now = new Date()): Promise<GoogleQuotaUsage> {
+  const state = await readSubmissionState(statePath);
+  const record = state.googleQuota?.[account];
+  const windowStart = now.getTime() - QUOTA_WINDOW_MS;
+  const requests = (Array.isArray(record?.requests) ? record.requests : [])
+    .map((value) => new Date(value))
+    .filter((date) => !Number.isNaN(date.getTime()) && date.getTime() > windowStart)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const queue = (Array.isArray(record?.queue) ? record.queue : [])
+    .filter((entry) => typeof entry?.url === 'string' && (entry.type === 'URL_UPDATED' || entry.type === 'URL_DELETED'))
+    .map((entry) => {
+      const candidate: GoogleNotificationCandidate = { url: entry.url, type: entry.type, queuedAt: new Date(entry.queuedAt) };
+      if (entry.lastmod) {
+        candidate.lastModified = new Date(entry.lastmod);
+      }
+      return candidate;
+    });
+  return { requests, queue };
+}
+
+/**
+ * Stores the quota usage of `account`. Requests that fell out of the rolling window are dropped.
+ */
+export async function writeGoogleQuotaUsage(
+  account: string,
+  usage: GoogleQuotaUsage,
+  statePath?: string,
+  now = new Date(),
+): Promise<void> {
+  const state = await readSubmissionState(statePath);
+  const windowStart = now.getTime() - QUOTA_WINDOW_MS;
+  const queuedAt = now.toISOString();
+  state.googleQuota = {
+    ...(state.googleQuota ?? {}),
+    [account]: {
+      requests: usage.requests.filter((date) => date.getTime() > windowStart).map((date) => date.toISOString()),
+      queue: usage.queue.map((candidate) => {
+        const entry: QueuedGoogleNotification = {
+          url: candidate.url,
+          type: candidate.type,
+          queuedAt: candidate.queuedAt?.toISOString() ?? queuedAt,
+        };
+        if (candidate.lastModified && !Number.isNaN(candidate.lastModified.getTime())) {
+          entry.lastmod = candidate.lastModified.toISOString();
+        }
+        return entry;
+      }),
+    },
+  };
+  await writeSubmissionState(state, statePath);
+}
+
+/**
+ * Orders notifications by `priority`. Without a priority, deferred notifications go first in the order
+ * they were queued, followed by the new ones in discovery order.
+ */
+export function prioritizeNotifications(
+  candidates: GoogleNotificationCandidate[],
+  priority?: GoogleUrlPriority,
+): GoogleNotificationCandidate[] {
+  const ordered = [...candidates.filter((candidate) => candidate.queuedAt), ...candidates.filter((candidate) => !candidate.queuedAt)];
+  if (!priority) {
+    return ordered;
+  }
+  const score =
+    priority === 'newest'
+      ? (candidate: GoogleNotificationCandidate) => candidate.lastModified?.getTime() ?? Number.NEGATIVE_INFINITY
+      : priority;
+  const scores = new Map(ordered.map((candidate) => [candidate, score(candidate)]));
+  // Array.prototype.sort is stable, so candidates with equal scores keep the default order.
+  return ordered.sort((a, b) => {
+    const difference = (scores.get(b) as number) - (scores.get(a) as number);
+    return Number.isNaN(difference) ? 0 : difference;
+  });
+}
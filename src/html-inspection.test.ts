@@ -0,0 +1,113 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { inspectRouteUrls, readHtmlIndexingDirectives } from './html-inspection';
+
+test('readHtmlIndexingDirectives reads robots meta tags and the canonical link from the head', () => {
+  assert.deepEqual(
+    readHtmlIndexingDirectives(
+      '<html><head><meta name="GoogleBot" content="NOINDEX, follow">' +
+        '<link rel="canonical" href="/blog/hello?a=1&amp;b=2"></head></html>',
+    ),
+    { noindex: true, canonical: '/blog/hello?a=1&b=2' },
+  );
+  assert.deepEqual(
+    readHtmlIndexingDirectives(
+      '<head><meta name="description" content="noindex"></head><body><link rel="canonical" href="/other"></body>',
+    ),
+    { noindex: false },
+  );
+});
+
+test('inspectRouteUrls drops noindex pages and applies canonical URLs', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-html-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const buildDir = path.join(dir, '.next');
+  await fs.mkdir(path.join(buildDir, 'server', 'app'), { recursive: true });
+  await fs.mkdir(path.join(buildDir, 'server', 'pages'), { recursive: true });
+  await fs.mkdir(path.join(dir, 'out', 'docs'), { recursive: true });
+  await fs.writeFile(path.join(buildDir, 'server', 'app', 'index.html'), '<head><title>Home</title></head>');
+  await fs.writeFile(path.join(buildDir, 'server', 'app', 'drafts.html'), '<head></head>');
+  await fs.writeFile(
+    path.join(buildDir, 'server', 'app', 'drafts.meta'),
+    JSON.stringify({ headers: { 'X-Robots-Tag': 'noindex' } }),
+  );
+  await fs.writeFile(
+    path.join(buildDir, 'server', 'pages', 'old-post.html'),
+    "<head><link rel='canonical' href='https://example.com/new-post'></head>",
+  );
+  await fs.writeFile(
+    path.join(buildDir, 'server', 'pages', 'syndicated.html'),
+    '<head><link rel="canonical" href="https://partner.example.org/post"></head>',
+  );
+  await fs.writeFile(path.join(dir, 'out', 'docs', 'index.html'), '<head><meta name="robots" content="none"></head>');
+
+  const result = await inspectRouteUrls(
+    [
+      { route: '/', url: 'https://example.com/' },
+      { route: '/drafts', url: 'https://example.com/drafts' },
+      { route: '/old-post', url: 'https://example.com/old-post' },
+      { route: '/new-post', url: 'https://example.com/new-post' },
+      { route: '/syndicated', url: 'https://example.com/syndicated' },
+      { route: '/docs', url: 'https://example.com/docs' },
+      { route: '/about', url: 'https://example.com/about' },
+    ],
+    { nextBuildDir: buildDir },
+  );
+
+  assert.deepEqual(
+    result.entries.map((entry) => [entry.route, entry.url]),
+    [
+      ['/', 'https://example.com/'],
+      ['/old-post', 'https://example.com/new-post'],
+      ['/about', 'https://example.com/about'],
+    ],
+  );
+  assert.deepEqual(result.excluded, [
+    { route: '/drafts', url: 'https://example.com/drafts', reason: 'noindex' },
+    {
+      route: '/old-post',
+      url: 'https://example.com/old-post',
+      reason: 'canonicalized',
+      canonical: 'https://example.com/new-post',
+    },
+    {
+      route: '/syndicated',
+      url: 'https://example.com/syndicated',
+      reason: 'external-canonical',
+      canonical: 'https://partner.example.org/post',
+    },
+    { route: '/docs', url: 'https://example.com/docs', reason: 'noindex' },
+  ]);
+});
+
+test('inspectRouteUrls keeps a homepage that declares itself canonical', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-html-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const buildDir = path.join(dir, '.next');
+  await fs.mkdir(path.join(buildDir, 'server', 'app'), { recursive: true });
+  await fs.writeFile(path.join(buildDir, 'server', 'app', 'index.html'), '<head><link rel="canonical" href="/"></head>');
+  await fs.writeFile(
+    path.join(buildDir, 'server', 'app', 'home.html'),
+    '<head><link rel="canonical" href="https://example.com/"></head>',
+  );
+
+  const result = await inspectRouteUrls(
+    [
+      { route: '/', url: 'https://example.com' },
+      { route: '/home', url: 'https://example.com/home' },
+    ],
+    { nextBuildDir: buildDir },
+  );
+
+  assert.deepEqual(
+    result.entries.map((entry) => [entry.route, entry.url]),
+    [['/', 'https://example.com']],
+  );
+  assert.deepEqual(result.excluded, [
+    { route: '/home', url: 'https://example.com/home', reason: 'canonicalized', canonical: 'https://example.com/' },
+  ]);
+});
@@ -0,0 +1,198 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { readJsonIfExists } from './routing';
+import type { RouteUrl } from './state';
+
+/**
+ * Why a discovered URL was not submitted: the page is `noindex`, its canonical URL is submitted instead, or its
+ * canonical URL is on another site.
+ */
+export type ExclusionReason = 'noindex' | 'canonicalized' | 'external-canonical';
+
+export interface ExcludedUrl {
+  route: string;
+  url: string;
+  reason: ExclusionReason;
+  /** Canonical URL declared by the page (only set for canonical exclusions) */
+  canonical?: string;
+}
+
+export interface HtmlIndexingDirectives {
+  /** True when a robots meta tag or `X-Robots-Tag` header contains `noindex` or `none` */
+  noindex: boolean;
+  /** Raw `href` of the first `<link rel="canonical">` */
+  canonical?: string;
+}
+
+export interface InspectRouteUrlsOptions {
+  /** Location of the Next.js build output. Defaults to `.next`. */
+  nextBuildDir?: string;
+  /** Static export directory to inspect as well. Defaults to `out` next to the build directory. */
+  exportDir?: string;
+}
+
+export interface InspectRouteUrlsResult {
+  /** URLs to submit, with canonicalized pages replaced by their canonical URL */
+  entries: RouteUrl[];
+  excluded: ExcludedUrl[];
+}
+
+// Crawlers that honour page-level robots directives aimed at them specifically.
+const ROBOTS_META_NAMES = new Set(['robots', 'googlebot', 'bingbot']);
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeAttribute(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'<>/=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = decodeAttribute(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function hasNoindex(directives: string): boolean {
+  return directives
+    .toLowerCase()
+    .split(',')
+    .map((directive) => directive.trim().replace(/^[\w-]+:\s*/, ''))
+    .some((directive) => directive === 'noindex' || directive === 'none');
+}
+
+/**
+ * Reads the robots meta tags and the canonical link from the `<head>` of a prerendered page.
+ */
+export function readHtmlIndexingDirectives(html: string): HtmlIndexingDirectives {
+  const headEnd = html.search(/<\/head\s*>|<body[\s>]/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+  const directives: HtmlIndexingDirectives = { noindex: false };
+  for (const [tag] of head.matchAll(/<(?:meta|link)\b[^>]*>/gi)) {
+    const attributes = readAttributes(tag);
+    if (/^<meta/i.test(tag)) {
+      if (ROBOTS_META_NAMES.has(attributes.name?.toLowerCase() ?? '') && hasNoindex(attributes.content ?? '')) {
+        directives.noindex = true;
+      }
+    } else if (
+      !directives.canonical &&
+      attributes.href &&
+      (attributes.rel ?? '').toLowerCase().split(/\s+/).includes('canonical')
+    ) {
+      directives.canonical = attributes.href.trim();
+    }
+  }
+  return directives;
+}
+
+async function readFileIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'EISDIR') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the HTML files that may hold the prerendered output of `route`: `.next/server/app`,
+ * `.next/server/pages` and the static export directory.
+ */
+export function getRouteHtmlCandidates(resolvedBuildDir: string, route: string, exportDir?: string): string[] {
+  const name = route === '/' ? 'index' : route.replace(/^\//, '');
+  const candidates = [
+    path.join(resolvedBuildDir, 'server', 'app', `${name}.html`),
+    path.join(resolvedBuildDir, 'server', 'pages', `${name}.html`),
+  ];
+  if (exportDir) {
+    candidates.push(path.join(exportDir, `${name}.html`));
+    if (route !== '/') {
+      candidates.push(path.join(exportDir, name, 'index.html'));
+    }
+  }
+  return candidates;
+}
+
+async function readRouteDirectives(
+  resolvedBuildDir: string,
+  route: string,
+  exportDir: string | undefined,
+): Promise<HtmlIndexingDirectives | undefined> {
+  for (const candidate of getRouteHtmlCandidates(resolvedBuildDir, route, exportDir)) {
+    const html = await readFileIfExists(candidate);
+    if (html === undefined) continue;
+    const directives = readHtmlIndexingDirectives(html);
+    // App Router records the response headers of prerendered pages, including `X-Robots-Tag`, next to the HTML.
+    const meta = candidate.startsWith(path.join(resolvedBuildDir, 'server', 'app') + path.sep)
+      ? await readJsonIfExists<{ headers?: Record<string, string> }>(candidate.replace(/\.html$/, '.meta'))
+      : null;
+    const robotsHeader = Object.entries(meta?.headers ?? {}).find(([name]) => name.toLowerCase() === 'x-robots-tag');
+    if (robotsHeader && hasNoindex(String(robotsHeader[1]))) {
+      directives.noindex = true;
+    }
+    return directives;
+  }
+  return undefined;
+}
+
+/**
+ * Inspects the prerendered HTML of each route. Pages marked `noindex` are dropped, pages whose canonical URL is on
+ * the same host are replaced by their canonical URL and pages canonicalized to another host are dropped. Routes
+ * without prerendered HTML are kept as they are.
+ */
+export async function inspectRouteUrls(
+  entries: RouteUrl[],
+  options: InspectRouteUrlsOptions = {},
+): Promise<InspectRouteUrlsResult> {
+  const nextBuildDir = options.nextBuildDir ?? '.next';
+  const resolvedBuildDir = path.resolve(nextBuildDir);
+  const exportDir = path.resolve(options.exportDir ?? path.join(nextBuildDir, '..', 'out'));
+  const result: InspectRouteUrlsResult = { entries: [], excluded: [] };
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    // Route URLs are built without a trailing slash for the homepage, so compare them in their normalized form.
+    const normalizedUrl = new URL(entry.url).toString();
+    const directives = await readRouteDirectives(resolvedBuildDir, entry.route, exportDir);
+    if (directives?.noindex) {
+      result.excluded.push({ route: entry.route, url: entry.url, reason: 'noindex' });
+      continue;
+    }
+    let url = entry.url;
+    if (directives?.canonical) {
+      let canonical: URL | undefined;
+      try {
+        canonical = new URL(directives.canonical, entry.url);
+      } catch {
+        canonical = undefined;
+      }
+      if (canonical && canonical.toString() !== normalizedUrl) {
+        const sameHost = canonical.host === new URL(entry.url).host;
+        result.excluded.push({
+          route: entry.route,
+          url: entry.url,
+          reason: sameHost ? 'canonicalized' : 'external-canonical',
+          canonical: canonical.toString(),
+        });
+        if (!sameHost) continue;
+        url = canonical.toString();
+      }
+    }
+    const key = url === entry.url ? normalizedUrl : url;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.entries.push(url === entry.url ? entry : { ...entry, url });
+  }
+  return result;
+}
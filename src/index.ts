@@ -4,9 +4,73 @@
  * Utility helpers for collecting Next.js routes and submitting them to IndexNow-compatible search engines.
  */
 export type {
+  CollectIndexableRoutesOptions,
+  CollectIndexableUrlsOptions,
+  IndexNowBatchResponse,
   SubmitToIndexNowOptions,
   SubmitToIndexNowResult,
 } from './indexnow';
-export { collectIndexableRoutes, submitToIndexNow } from './indexnow';
-export type { SubmitToGoogleIndexingOptions, SubmitToGoogleIndexingResult } from './google-indexing';
-export { submitToGoogleIndexing } from './google-indexing';
+export { collectIndexableRoutes, collectIndexableUrls, submitToIndexNow } from './indexnow';
+export type { ExcludedUrl, ExclusionReason, InspectRouteUrlsOptions, InspectRouteUrlsResult } from './html-inspection';
+export { inspectRouteUrls } from './html-inspection';
+export type { ExportedRoutes } from './build-output';
+export { collectExportedRoutes, resolveNextBuildDir } from './build-output';
+export type {
+  ApplyRoutingRulesOptions,
+  ApplyRoutingRulesResult,
+  RoutingDecision,
+  RoutingDecisionReason,
+} from './route-rules';
+export { applyRoutingRules } from './route-rules';
+export type { RobotsTxtGroup, RobotsTxtRule } from './robots-txt';
+export { isAllowedByRobotsTxt, parseRobotsTxt } from './robots-txt';
+export type { RouteUrl } from './state';
+export type { NextRoutingConfig } from './routing';
+export type {
+  GetGoogleIndexingStatusOptions,
+  GoogleIndexingResponse,
+  GoogleIndexingStatus,
+  SubmitToGoogleIndexingOptions,
+  SubmitToGoogleIndexingResult,
+} from './google-indexing';
+export { getGoogleIndexingStatus, submitToGoogleIndexing } from './google-indexing';
+export type { GoogleCredentialsOptions, GoogleServiceAccountCredentials } from './google-auth';
+export type { GoogleNotificationCandidate, GoogleUrlPriority } from './google-quota';
+export type { DynamicRouteParams, DynamicRouteResolver } from './dynamic-routes';
+export { expandDynamicRoute } from './dynamic-routes';
+export type { SitemapEntry } from './sitemap';
+export { readSitemap } from './sitemap';
+export type { GenerateSitemapOptions, GenerateSitemapResult } from './generate-sitemap';
+export { generateSitemap } from './generate-sitemap';
+export type { RetryPolicy } from './retry';
+export type { VerifyCheck, VerifyCheckStatus, VerifySetupOptions, VerifySetupResult } from './verify';
+export { verifySetup } from './verify';
+export type { IndexNowKeyRewriteOptions, IndexNowKeyRouteOptions } from './key-route';
+export { createIndexNowKeyApiHandler, createIndexNowKeyRoute, getIndexNowKeyRewrites } from './key-route';
+export type { WithIndexingPackOptions } from './with-indexing-pack';
+export { withIndexingPack } from './with-indexing-pack';
+export type {
+  NotificationType,
+  NotifySearchEnginesError,
+  NotifySearchEnginesOptions,
+  NotifySearchEnginesResult,
+} from './notify';
+export { notifySearchEngines } from './notify';
+export type {
+  RevalidationWebhookOptions,
+  RevalidationWebhookResponseBody,
+  WebhookSignatureAlgorithm,
+  WebhookTargets,
+} from './webhook';
+export { createRevalidationWebhookRoute, verifyWebhookSignature } from './webhook';
+export type {
+  EnqueueOptions,
+  EnqueueResult,
+  FlushOutboxOptions,
+  FlushOutboxResult,
+  OutboxEntry,
+  OutboxItem,
+} from './outbox';
+export { enqueueUrls, flushOutbox, readOutbox } from './outbox';
+export type { GoogleEngineConfig, IndexNowEngineConfig, NextjsIndexingPackConfig, SiteConfig } from './config';
+export { defineConfig, resolveSites } from './config';
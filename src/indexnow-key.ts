@@ -0,0 +1,2 @@
+// IndexNow keys must be 8 to 128 characters long and may only contain letters, digits and dashes.
+export const INDEXNOW_KEY_PATTERN = /^[a-zA-Z0-9-]{8,128}$/;
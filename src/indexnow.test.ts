@@ -1,7 +1,11 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 import { submitToIndexNow } from './indexnow';
+import { updateSubmissionState } from './state';
 
 test('submitToIndexNow requires a fully qualified baseUrl', async () => {
   await assert.rejects(
@@ -15,3 +19,75 @@ test('submitToIndexNow requires a fully qualified baseUrl', async () => {
     }
   );
 });
+
+test('submitToIndexNow batches explicit URLs per host', async (t) => {
+  const payloads: any[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_endpoint: string, init: RequestInit) => {
+    payloads.push(JSON.parse(init.body as string));
+    return new Response('', { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const result = await submitToIndexNow({
+    baseUrl: 'https://example.com',
+    key: 'test-key',
+    endpoints: ['https://api.indexnow.org/indexnow'],
+    batchSize: 2,
+    keyLocations: { 'example.fr': 'https://example.fr/keys/test-key.txt' },
+    urls: ['https://example.com/a', 'https://example.fr/a', 'https://example.com/b', 'https://example.com/c'],
+  });
+
+  assert.deepEqual(payloads, [
+    {
+      host: 'example.com',
+      key: 'test-key',
+      keyLocation: 'https://example.com/test-key.txt',
+      urlList: ['https://example.com/a', 'https://example.com/b'],
+    },
+    {
+      host: 'example.com',
+      key: 'test-key',
+      keyLocation: 'https://example.com/test-key.txt',
+      urlList: ['https://example.com/c'],
+    },
+    {
+      host: 'example.fr',
+      key: 'test-key',
+      keyLocation: 'https://example.fr/keys/test-key.txt',
+      urlList: ['https://example.fr/a'],
+    },
+  ]);
+  assert.deepEqual(
+    result.responses.map((response) => [response.host, response.batch, response.batchCount, response.urlCount]),
+    [
+      ['example.com', 1, 2, 2],
+      ['example.com', 2, 2, 1],
+      ['example.fr', 1, 1, 1],
+    ],
+  );
+});
+
+test('submitToIndexNow notifies removed routes by default with changedOnly', async (t) => {
+  const nextBuildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(nextBuildDir, { recursive: true, force: true }));
+  await fs.writeFile(
+    path.join(nextBuildDir, 'routes-manifest.json'),
+    JSON.stringify({ staticRoutes: [{ page: '/' }, { page: '/about' }] }),
+  );
+  const stateFile = path.join(nextBuildDir, 'state.json');
+  await updateSubmissionState(
+    'indexnow',
+    { accepted: [{ route: '/old', url: 'https://example.com/old' }] },
+    stateFile,
+  );
+  const options = { baseUrl: 'https://example.com', key: 'test-key', nextBuildDir, stateFile, dryRun: true };
+
+  const tracked = await submitToIndexNow({ ...options, changedOnly: true });
+  assert.deepEqual(tracked.removedUrls, ['https://example.com/old']);
+
+  const optedOut = await submitToIndexNow({ ...options, changedOnly: true, notifyRemoved: false });
+  assert.equal(optedOut.removedUrls, undefined);
+});
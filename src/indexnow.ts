@@ -1,5 +1,18 @@
-import { promises as fs } from 'fs';
 import path from 'path';
+import { planTrackedSubmission, recordLastRun, updateSubmissionState } from './state';
+import type { RouteUrl, TrackedSubmission } from './state';
+import { expandDynamicRoute, isExpandableRoutePattern } from './dynamic-routes';
+import type { DynamicRouteResolver } from './dynamic-routes';
+import { SINCE_LAST_RUN, readSitemapUrls } from './sitemap';
+import { applyBasePath, readJsonIfExists, readRoutingConfig, toPublicUrls } from './routing';
+import { inspectRouteUrls } from './html-inspection';
+import { createRobotsTxtFilter } from './robots-txt';
+import { collectExportedRoutes, resolveNextBuildDir } from './build-output';
+import { applyRoutingRules } from './route-rules';
+import type { RoutingDecision } from './route-rules';
+import type { ExcludedUrl } from './html-inspection';
+import { fetchWithRetry } from './retry';
+import type { RetryPolicy } from './retry';
 
 const DEFAULT_EXCLUDED_ROUTES = new Set<string>([
   '/404',
@@ -12,6 +25,9 @@ const DEFAULT_EXCLUDED_ROUTES = new Set<string>([
   '/_not-found',
 ]);
 
+// The IndexNow protocol accepts at most 10,000 URLs per request.
+const MAX_URLS_PER_REQUEST = 10_000;
+
 const DEFAULT_ENDPOINTS = [
   'https://api.indexnow.org/indexnow',
   'https://www.bing.com/indexnow',
@@ -25,9 +41,15 @@ export interface SubmitToIndexNowOptions {
    */
   baseUrl: string;
   /**
-   * Directory that contains the compiled Next.js output. Defaults to `.next`.
+   * Directory that contains the compiled Next.js output. Defaults to `.next`. A standalone build
+   * (`.next/standalone`) is also accepted.
    */
   nextBuildDir?: string;
+  /**
+   * Static export directory (`output: 'export'`, usually `out`) to discover routes from instead of the build
+   * manifests. Every exported HTML page except the error pages is submitted.
+   */
+  exportDir?: string;
   /**
    * IndexNow API key value. The matching key file must be available on your site.
    */
@@ -37,10 +59,23 @@ export interface SubmitToIndexNowOptions {
    * Defaults to `${baseUrl}/${key}.txt` when omitted.
    */
   keyLocation?: string;
+  /**
+   * Optional key file locations for other hosts, keyed by host (e.g. `{ 'example.fr': 'https://example.fr/key.txt' }`).
+   * Hosts without an entry use `https://<host>/${key}.txt`.
+   */
+  keyLocations?: Record<string, string>;
   /**
    * Overrides the list of IndexNow-compatible endpoints to notify.
    */
   endpoints?: string[];
+  /**
+   * Maximum number of URLs per request. Defaults to and is capped at 10,000, the IndexNow protocol limit.
+   */
+  batchSize?: number;
+  /**
+   * Retry policy for failed requests (network errors, 429 and 5xx responses). Pass `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
   /**
    * Optional filter that can be used to remove URLs from the submission payload.
    */
@@ -53,25 +88,97 @@ export interface SubmitToIndexNowOptions {
    * Optional explicit list of URLs to submit instead of discovering them from the Next.js build output.
    */
   urls?: string[];
+  /**
+   * Optional path to a local sitemap or sitemap index to read URLs from instead of scanning the Next.js
+   * build output. Gzipped sitemaps and the `.next/server/app/sitemap.xml.body` build artifact are supported.
+   */
+  sitemap?: string;
+  /**
+   * Only submit sitemap URLs whose `lastmod` is on or after this date. Pass `'last-run'` to use the start
+   * of the last accepted run recorded in the state file. URLs without `lastmod` are always submitted.
+   */
+  sitemapModifiedSince?: Date | string;
+  /**
+   * Optional callback that returns the concrete values for dynamic route patterns such as `/blog/[slug]`.
+   */
+  dynamicRouteResolver?: DynamicRouteResolver;
+  /**
+   * Inspect the prerendered HTML of discovered routes: `noindex` pages are skipped and pages with a canonical URL
+   * on the same host are submitted as that URL. Defaults to true. Ignored for explicit `urls` and sitemaps.
+   */
+  inspectHtml?: boolean;
+  /**
+   * Apply the redirects and rewrites of `routes-manifest.json` to discovered routes: permanently redirected routes
+   * are skipped and static rewrites are submitted under their public source. Defaults to true.
+   */
+  applyRoutingRules?: boolean;
+  /**
+   * Also submit the destination of each permanently redirected route. Defaults to false.
+   */
+  followRedirects?: boolean;
+  /**
+   * Leave out URLs that the site's robots.txt disallows for the search engine crawlers. Defaults to true.
+   */
+  respectRobotsTxt?: boolean;
+  /**
+   * Path to the robots.txt to apply. Defaults to the built `app/robots.ts` output or `public/robots.txt`.
+   */
+  robotsTxt?: string;
+  /**
+   * When true, only routes that are new or whose prerendered output changed since the last accepted
+   * submission are sent. Ignored when explicit `urls` are provided.
+   */
+  changedOnly?: boolean;
+  /**
+   * When true, routes that were accepted in a previous build but no longer exist are included in the
+   * ping so search engines recrawl them and drop the 404s. Defaults to `changedOnly`, since both track the
+   * routes in the state file. Ignored when explicit `urls` are provided.
+   */
+  notifyRemoved?: boolean;
+  /**
+   * Location of the state file used by `changedOnly` and `notifyRemoved`.
+   * Defaults to `.nextjs-indexing-pack/state.json`.
+   */
+  stateFile?: string;
+}
+
+export interface IndexNowBatchResponse {
+  /** Endpoint the batch was sent to */
+  endpoint: string;
+  /** Host shared by every URL in the batch */
+  host: string;
+  /** 1-based position of the batch among the batches for `host` */
+  batch: number;
+  /** Number of batches sent for `host` */
+  batchCount: number;
+  /** Number of URLs in the batch */
+  urlCount: number;
+  /** Number of requests sent, including retries */
+  attempts: number;
+  status: number;
+  ok: boolean;
+  body?: string;
 }
 
 export interface SubmitToIndexNowResult {
   /** URLs that were discovered in the Next.js build output */
   urls: string[];
-  /** Result of the submission attempt for each endpoint */
-  responses: Record<string, { status: number; ok: boolean; body?: string }>;
-}
-
-async function readJsonIfExists<T = unknown>(filePath: string): Promise<T | null> {
-  try {
-    const file = await fs.readFile(filePath, 'utf8');
-    return JSON.parse(file) as T;
-  } catch (error: any) {
-    if (error?.code === 'ENOENT') {
-      return null;
-    }
-    throw error;
-  }
+  /** Result of the submission attempt for each batch and endpoint */
+  responses: IndexNowBatchResponse[];
+  /** URLs skipped because their prerendered output did not change (only set when `changedOnly` is enabled) */
+  unchangedUrls?: string[];
+  /** URLs of routes that disappeared since the previous build (only set when `notifyRemoved` is enabled) */
+  removedUrls?: string[];
+  /** URLs whose batch was accepted by at least one endpoint (only set when requests were sent) */
+  acceptedUrls?: string[];
+  /** URLs whose batch was not accepted by any endpoint (only set when requests were sent) */
+  rejectedUrls?: string[];
+  /** Discovered URLs left out or replaced after inspecting the built HTML, with the reason */
+  excludedUrls?: ExcludedUrl[];
+  /** URLs left out because robots.txt disallows them for the search engine crawlers */
+  disallowedUrls?: string[];
+  /** Discovered routes left out, added or replaced by the redirects and rewrites of the build, with the rule */
+  routingDecisions?: RoutingDecision[];
 }
 
 function normalizeRoute(route: string): string {
@@ -88,35 +195,75 @@ function isDynamicRoute(route: string): boolean {
   return /[\[\]]/.test(route) || route.includes(':');
 }
 
-function shouldExcludeRoute(route: string): boolean {
+function shouldExcludeRoute(route: string, locales: string[] = []): boolean {
   if (DEFAULT_EXCLUDED_ROUTES.has(route)) {
     return true;
   }
+  // Localized builds prerender utility pages such as `/fr/404` once per locale.
+  const [, firstSegment, ...rest] = route.split('/');
+  if (rest.length && locales.includes(firstSegment) && DEFAULT_EXCLUDED_ROUTES.has(`/${rest.join('/')}`)) {
+    return true;
+  }
   if (route.startsWith('/_next')) {
     return true;
   }
   return false;
 }
 
-export async function collectIndexableRoutes(nextBuildDir = '.next'): Promise<string[]> {
-  const resolvedDir = path.resolve(nextBuildDir);
+export interface CollectIndexableRoutesOptions {
+  /**
+   * Optional callback that returns the concrete values for dynamic route patterns such as `/blog/[slug]`.
+   * Without it, dynamic routes are only included when Next.js prerendered them at build time.
+   */
+  dynamicRouteResolver?: DynamicRouteResolver;
+  /**
+   * Apply the redirects and rewrites of `routes-manifest.json`: permanently redirected routes are left out and
+   * static rewrites are listed under their public source. Defaults to true.
+   */
+  applyRoutingRules?: boolean;
+  /**
+   * Add the destination of each permanently redirected route. Defaults to false.
+   */
+  followRedirects?: boolean;
+}
+
+export async function collectIndexableRoutes(
+  nextBuildDir = '.next',
+  options: CollectIndexableRoutesOptions = {},
+): Promise<string[]> {
+  const { dynamicRouteResolver } = options;
+  const resolvedDir = await resolveNextBuildDir(nextBuildDir);
   const discoveredRoutes = new Set<string>();
+  const dynamicPatterns = new Set<string>();
 
   const routesManifest = await readJsonIfExists<any>(path.join(resolvedDir, 'routes-manifest.json'));
+  const locales: string[] = Array.isArray(routesManifest?.i18n?.locales) ? routesManifest.i18n.locales : [];
+  if (routesManifest?.dynamicRoutes) {
+    for (const route of routesManifest.dynamicRoutes) {
+      if (!route?.page) continue;
+      dynamicPatterns.add(normalizeRoute(route.page));
+    }
+  }
   if (routesManifest?.staticRoutes) {
     for (const route of routesManifest.staticRoutes) {
       if (!route?.page) continue;
       const normalized = normalizeRoute(route.page);
-      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized)) continue;
+      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized, locales)) continue;
       discoveredRoutes.add(normalized === '/index' ? '/' : normalized);
     }
   }
 
   const prerenderManifest = await readJsonIfExists<any>(path.join(resolvedDir, 'prerender-manifest.json'));
+  if (prerenderManifest?.dynamicRoutes) {
+    for (const routeKey of Object.keys(prerenderManifest.dynamicRoutes)) {
+      dynamicPatterns.add(normalizeRoute(routeKey));
+    }
+  }
+  // Concrete paths of dynamic routes that were generated at build time (getStaticPaths/generateStaticParams).
   if (prerenderManifest?.routes) {
     for (const routeKey of Object.keys(prerenderManifest.routes)) {
       const normalized = normalizeRoute(routeKey);
-      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized)) continue;
+      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized, locales)) continue;
       discoveredRoutes.add(normalized);
     }
   }
@@ -125,7 +272,10 @@ export async function collectIndexableRoutes(nextBuildDir = '.next'): Promise<st
   if (pagesManifest) {
     for (const routeKey of Object.keys(pagesManifest)) {
       const normalized = normalizeRoute(routeKey);
-      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized)) continue;
+      if (isDynamicRoute(normalized) && !shouldExcludeRoute(normalized, locales)) {
+        dynamicPatterns.add(normalized);
+      }
+      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized, locales)) continue;
       discoveredRoutes.add(normalized === '/index' ? '/' : normalized);
     }
   }
@@ -134,27 +284,169 @@ export async function collectIndexableRoutes(nextBuildDir = '.next'): Promise<st
   if (appPathsManifest) {
     for (const routeKey of Object.keys(appPathsManifest)) {
       const normalized = normalizeRoute(routeKey);
-      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized)) continue;
+      if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized, locales)) continue;
       discoveredRoutes.add(normalized === '/index' ? '/' : normalized);
     }
   }
 
+  if (dynamicRouteResolver) {
+    for (const pattern of Array.from(dynamicPatterns).sort()) {
+      if (!isExpandableRoutePattern(pattern) || shouldExcludeRoute(pattern, locales)) continue;
+      const values = await dynamicRouteResolver(pattern);
+      for (const value of values ?? []) {
+        const normalized = normalizeRoute(expandDynamicRoute(pattern, value));
+        if (isDynamicRoute(normalized) || shouldExcludeRoute(normalized, locales)) continue;
+        discoveredRoutes.add(normalized);
+      }
+    }
+  }
+
   const routes = Array.from(discoveredRoutes);
   routes.sort((a, b) => (a === '/' ? -1 : b === '/' ? 1 : a.localeCompare(b)));
-  return routes;
+  if (options.applyRoutingRules === false) {
+    return routes;
+  }
+  const { followRedirects } = options;
+  return (await applyRoutingRules(routes, { nextBuildDir: resolvedDir, followRedirects })).routes;
+}
+
+export interface CollectIndexableUrlsOptions extends CollectIndexableRoutesOptions {
+  /**
+   * Inspect the prerendered HTML to drop `noindex` pages and apply canonical URLs. Defaults to true.
+   */
+  inspectHtml?: boolean;
+  /**
+   * Static export directory to discover routes from instead of the build manifests. Without it, the HTML in
+   * `out` next to the build directory is still inspected.
+   */
+  exportDir?: string;
+}
+
+interface IndexNowBatch {
+  host: string;
+  origin: string;
+  index: number;
+  count: number;
+  urls: string[];
+}
+
+/**
+ * Groups URLs by host, because IndexNow rejects URLs whose host differs from the payload `host`, and splits
+ * each group into batches of at most `batchSize` URLs.
+ */
+function createBatches(urls: string[], batchSize: number): IndexNowBatch[] {
+  const groups = new Map<string, { origin: string; urls: string[] }>();
+  for (const urlToSubmit of urls) {
+    const parsed = new URL(urlToSubmit);
+    const group = groups.get(parsed.host) ?? { origin: parsed.origin, urls: [] };
+    group.urls.push(urlToSubmit);
+    groups.set(parsed.host, group);
+  }
+
+  const batches: IndexNowBatch[] = [];
+  for (const [host, group] of groups) {
+    const count = Math.ceil(group.urls.length / batchSize);
+    for (let index = 0; index < count; index += 1) {
+      batches.push({
+        host,
+        origin: group.origin,
+        index: index + 1,
+        count,
+        urls: group.urls.slice(index * batchSize, (index + 1) * batchSize),
+      });
+    }
+  }
+  return batches;
+}
+
+export interface DiscoveredRouteUrls {
+  entries: RouteUrl[];
+  /** Changes made to the discovered routes by the redirects and rewrites of the build */
+  routingDecisions: RoutingDecision[];
+}
+
+/**
+ * Maps the routes of the build output, or of the static export, to their public URLs without inspecting their
+ * HTML, and reports how the redirects and rewrites of the build changed them.
+ */
+export async function discoverRouteUrls(
+  normalizedBase: string,
+  nextBuildDir: string,
+  options: CollectIndexableUrlsOptions = {},
+): Promise<DiscoveredRouteUrls> {
+  const resolvedBuildDir = await resolveNextBuildDir(nextBuildDir);
+  // Static exports cannot use redirects or rewrites, so their pages are the public paths already.
+  if (options.exportDir) {
+    const { routes, routing } = await collectExportedRoutes(options.exportDir, resolvedBuildDir);
+    return { entries: toPublicUrls(routes, normalizedBase, routing), routingDecisions: [] };
+  }
+  const discovered = await collectIndexableRoutes(resolvedBuildDir, { ...options, applyRoutingRules: false });
+  const { routes, decisions } =
+    options.applyRoutingRules === false
+      ? { routes: discovered, decisions: [] }
+      : await applyRoutingRules(discovered, {
+          nextBuildDir: resolvedBuildDir,
+          followRedirects: options.followRedirects,
+        });
+  return {
+    entries: toPublicUrls(routes, normalizedBase, await readRoutingConfig(resolvedBuildDir)),
+    routingDecisions: decisions,
+  };
+}
+
+/**
+ * Collects the public URLs of the routes in the Next.js build output. `basePath`, `trailingSlash` and i18n
+ * locales (including domain-based locales) are read from the build so the URLs match the deployed site. Pages
+ * whose prerendered HTML is `noindex` are left out and canonicalized pages are replaced by their canonical URL.
+ */
+export async function collectIndexableUrls(
+  baseUrl: string,
+  nextBuildDir = '.next',
+  options: CollectIndexableUrlsOptions = {},
+): Promise<RouteUrl[]> {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new Error(`\`baseUrl\` must be a fully qualified URL (for example, https://example.com). Received: ${baseUrl}`);
+  }
+  const pathname = url.pathname.endsWith('/') && url.pathname !== '/' ? url.pathname.slice(0, -1) : url.pathname;
+  const normalizedBase = `${url.origin}${pathname === '/' ? '' : pathname}`;
+
+  const resolvedBuildDir = await resolveNextBuildDir(nextBuildDir);
+  const { entries } = await discoverRouteUrls(normalizedBase, resolvedBuildDir, options);
+  if (options.inspectHtml === false) {
+    return entries;
+  }
+  return (await inspectRouteUrls(entries, { nextBuildDir: resolvedBuildDir, exportDir: options.exportDir })).entries;
 }
 
 export async function submitToIndexNow(options: SubmitToIndexNowOptions): Promise<SubmitToIndexNowResult> {
   const {
     baseUrl,
-    nextBuildDir = '.next',
+    exportDir,
     key,
     keyLocation,
+    keyLocations,
     endpoints = DEFAULT_ENDPOINTS,
+    batchSize = MAX_URLS_PER_REQUEST,
+    retry,
     urlFilter,
     dryRun,
     urls: explicitUrls,
+    sitemap,
+    sitemapModifiedSince,
+    dynamicRouteResolver,
+    inspectHtml = true,
+    applyRoutingRules,
+    followRedirects,
+    respectRobotsTxt = true,
+    robotsTxt,
+    changedOnly,
+    notifyRemoved = changedOnly,
+    stateFile,
   } = options;
+  const startedAt = new Date();
 
   if (!baseUrl) {
     throw new Error('`baseUrl` must be provided.');
@@ -162,6 +454,9 @@ export async function submitToIndexNow(options: SubmitToIndexNowOptions): Promis
   if (!key) {
     throw new Error('`key` must be provided.');
   }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`\`batchSize\` must be a positive integer. Received: ${batchSize}`);
+  }
 
   let url: URL;
   try {
@@ -171,8 +466,26 @@ export async function submitToIndexNow(options: SubmitToIndexNowOptions): Promis
   }
   const pathname = url.pathname.endsWith('/') && url.pathname !== '/' ? url.pathname.slice(0, -1) : url.pathname;
   const normalizedBase = `${url.origin}${pathname === '/' ? '' : pathname}`;
+  // Resolved on first use, so explicit URLs submitted with a key location only read the build output for robots.txt,
+  // and not at all with `robotsTxt`, a robots.txt in `exportDir` or `respectRobotsTxt: false`.
+  let resolvingBuildDir: Promise<string> | undefined;
+  const getNextBuildDir = () => (resolvingBuildDir ??= resolveNextBuildDir(options.nextBuildDir));
 
   let urls: string[];
+  let tracked: TrackedSubmission | undefined;
+  let excludedUrls: ExcludedUrl[] | undefined;
+  let routingDecisions: RoutingDecision[] | undefined;
+  const robotsFilter = respectRobotsTxt
+    ? await createRobotsTxtFilter('indexnow', { nextBuildDir: getNextBuildDir, exportDir, robotsTxt })
+    : undefined;
+  const disallowedUrls: string[] = [];
+  const isAllowedByRobots = (urlToCheck: string): boolean => {
+    if (!robotsFilter || robotsFilter(urlToCheck)) {
+      return true;
+    }
+    disallowedUrls.push(urlToCheck);
+    return false;
+  };
   if (explicitUrls?.length) {
     const seen = new Set<string>();
     urls = [];
@@ -192,56 +505,177 @@ export async function submitToIndexNow(options: SubmitToIndexNowOptions): Promis
         continue;
       }
       seen.add(normalizedUrl);
-      urls.push(normalizedUrl);
+      if (isAllowedByRobots(normalizedUrl)) {
+        urls.push(normalizedUrl);
+      }
     }
   } else {
-    const routes = await collectIndexableRoutes(nextBuildDir);
-    urls = routes
-      .map((route) => (route === '/' ? normalizedBase : `${normalizedBase}${route}`))
-      .filter((routeUrl) => (urlFilter ? urlFilter(routeUrl) : true));
+    const nextBuildDir = await getNextBuildDir();
+    let discovered: RouteUrl[];
+    let candidates: RouteUrl[];
+    if (sitemap) {
+      const sitemapUrls = await readSitemapUrls('indexnow', sitemap, sitemapModifiedSince, stateFile);
+      discovered = sitemapUrls.discovered;
+      candidates = sitemapUrls.modified;
+    } else {
+      const discovery = await discoverRouteUrls(normalizedBase, nextBuildDir, {
+        dynamicRouteResolver,
+        exportDir,
+        applyRoutingRules,
+        followRedirects,
+      });
+      discovered = discovery.entries;
+      routingDecisions = discovery.routingDecisions;
+      if (inspectHtml) {
+        const inspection = await inspectRouteUrls(discovered, { nextBuildDir, exportDir });
+        discovered = inspection.entries;
+        excludedUrls = inspection.excluded;
+      }
+      candidates = discovered;
+    }
+    const entries = candidates.filter(
+      (entry) => (urlFilter ? urlFilter(entry.url) : true) && isAllowedByRobots(entry.url),
+    );
+    if (changedOnly || notifyRemoved) {
+      tracked = await planTrackedSubmission('indexnow', discovered, entries, {
+        nextBuildDir,
+        exportDir,
+        baseUrl: normalizedBase,
+        changedOnly,
+        notifyRemoved,
+        stateFile,
+      });
+      urls = tracked.entries.map((entry) => entry.url);
+    } else {
+      urls = entries.map((entry) => entry.url);
+    }
   }
 
   const submission: SubmitToIndexNowResult = {
     urls,
-    responses: {},
+    responses: [],
   };
+  if (routingDecisions?.length) {
+    submission.routingDecisions = routingDecisions;
+  }
+  if (excludedUrls?.length) {
+    submission.excludedUrls = excludedUrls;
+  }
+  if (disallowedUrls.length) {
+    submission.disallowedUrls = disallowedUrls;
+  }
+  if (tracked && changedOnly) {
+    submission.unchangedUrls = tracked.unchanged;
+  }
+  if (tracked && notifyRemoved) {
+    submission.removedUrls = tracked.removed;
+  }
 
   if (dryRun) {
     return submission;
   }
+  const advancesLastRun = Boolean(sitemap) && sitemapModifiedSince === SINCE_LAST_RUN && !explicitUrls?.length;
+  if (!urls.length && !tracked?.removed.length) {
+    if (advancesLastRun) {
+      await recordLastRun('indexnow', startedAt, stateFile);
+    }
+    return submission;
+  }
 
-  const payload = {
-    host: url.host,
-    key,
-    keyLocation: keyLocation ?? `${normalizedBase}/${key}.txt`,
-    urlList: urls,
+  const batches = createBatches(tracked ? [...urls, ...tracked.removed] : urls, Math.min(batchSize, MAX_URLS_PER_REQUEST));
+  // Public files such as the key file are served below `basePath`.
+  const needsBasePath = batches.some(
+    (batch) => !keyLocations?.[batch.host] && (batch.host !== url.host || keyLocation === undefined),
+  );
+  const { basePath } = needsBasePath ? await readRoutingConfig(await getNextBuildDir()) : { basePath: '' };
+  const resolveKeyLocation = (batch: IndexNowBatch): string => {
+    if (keyLocations?.[batch.host]) {
+      return keyLocations[batch.host];
+    }
+    if (batch.host === url.host) {
+      return keyLocation ?? `${applyBasePath(normalizedBase, basePath)}/${key}.txt`;
+    }
+    return `${applyBasePath(batch.origin, basePath)}/${key}.txt`;
   };
 
-  await Promise.all(
-    endpoints.map(async (endpoint) => {
-      try {
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(payload),
-        });
-        const bodyText = await response.text();
-        submission.responses[endpoint] = {
-          status: response.status,
-          ok: response.ok,
-          body: bodyText || undefined,
-        };
-      } catch (error: any) {
-        submission.responses[endpoint] = {
-          status: 0,
-          ok: false,
-          body: error?.message,
+  const acceptedUrls = new Set<string>();
+  for (const batch of batches) {
+    const payload = {
+      host: batch.host,
+      key,
+      keyLocation: resolveKeyLocation(batch),
+      urlList: batch.urls,
+    };
+    const batchResponses = await Promise.all(
+      endpoints.map(async (endpoint): Promise<IndexNowBatchResponse> => {
+        const details = {
+          endpoint,
+          host: batch.host,
+          batch: batch.index,
+          batchCount: batch.count,
+          urlCount: batch.urls.length,
         };
+        let attempts = 0;
+        try {
+          const result = await fetchWithRetry(
+            endpoint,
+            {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify(payload),
+            },
+            retry,
+          );
+          attempts = result.attempts;
+          if (!result.response) {
+            throw result.error ?? new Error('Request failed.');
+          }
+          const bodyText = await result.response.text();
+          return {
+            ...details,
+            attempts,
+            status: result.response.status,
+            ok: result.response.ok,
+            body: bodyText || undefined,
+          };
+        } catch (error: any) {
+          return {
+            ...details,
+            attempts,
+            status: 0,
+            ok: false,
+            body: error?.message,
+          };
+        }
+      }),
+    );
+    submission.responses.push(...batchResponses);
+    // IndexNow partners share submissions with each other, so one accepting endpoint is enough to accept a batch.
+    if (batchResponses.some((response) => response.ok)) {
+      for (const acceptedUrl of batch.urls) {
+        acceptedUrls.add(acceptedUrl);
       }
-    })
-  );
+    }
+  }
+
+  submission.acceptedUrls = [...acceptedUrls];
+  submission.rejectedUrls = batches.flatMap((batch) => batch.urls.filter((batchUrl) => !acceptedUrls.has(batchUrl)));
+
+  if (tracked) {
+    await updateSubmissionState(
+      'indexnow',
+      {
+        accepted: tracked.entries.filter((entry) => acceptedUrls.has(entry.url)),
+        removed: tracked.removed.filter((removedUrl) => acceptedUrls.has(removedUrl)),
+      },
+      stateFile,
+    );
+  }
+  if (advancesLastRun && batches.every((batch) => batch.urls.every((batchUrl) => acceptedUrls.has(batchUrl)))) {
+    await recordLastRun('indexnow', startedAt, stateFile);
+  }
 
   return submission;
 }
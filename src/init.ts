@@ -4,12 +4,13 @@ import { randomBytes } from 'node:crypto';
 import path from 'node:path';
 import { promises as fs } from 'node:fs';
 import { CONFIG_FILENAME, saveConfig } from './config';
+import { DEFAULT_KEY_ROUTE_PATH } from './key-route';
 
 function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function generateIndexNowKey(): string {
+export function generateIndexNowKey(): string {
   // 16 random bytes yields a 32 character hex string which satisfies IndexNow requirements (8-128 chars).
   return randomBytes(16).toString('hex');
 }
@@ -18,12 +19,63 @@ async function ensureDirectory(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
 }
 
-async function writeKeyFile(publicDir: string, key: string): Promise<string> {
+export async function writeKeyFile(publicDir: string, key: string): Promise<string> {
   const filePath = path.join(publicDir, `${key}.txt`);
   await fs.writeFile(filePath, key, 'utf8');
   return filePath;
 }
 
+export async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+    return false;
+  }
+}
+
+async function scaffoldKeyRoute(): Promise<{ filePath: string; status: 'created' | 'skipped' }> {
+  const cwd = process.cwd();
+  const extension = (await pathExists(path.join(cwd, 'tsconfig.json'))) ? 'ts' : 'js';
+  const routeSegments = DEFAULT_KEY_ROUTE_PATH.split('/').filter(Boolean);
+
+  let appDir: string | undefined;
+  for (const candidate of ['app', path.join('src', 'app')]) {
+    if (await pathExists(path.join(cwd, candidate))) {
+      appDir = candidate;
+      break;
+    }
+  }
+
+  let filePath: string;
+  let contents: string;
+  if (appDir) {
+    filePath = path.join(cwd, appDir, ...routeSegments, `route.${extension}`);
+    contents =
+      "import { createIndexNowKeyRoute } from 'nextjs-indexing-pack';\n\n" +
+      '// Read INDEXNOW_KEY on every request so rotating the key does not require a new build.\n' +
+      "export const dynamic = 'force-dynamic';\n" +
+      'export const GET = createIndexNowKeyRoute();\n';
+  } else {
+    const pagesDir = (await pathExists(path.join(cwd, 'src', 'pages'))) ? path.join('src', 'pages') : 'pages';
+    const routeName = `${routeSegments[routeSegments.length - 1]}.${extension}`;
+    filePath = path.join(cwd, pagesDir, ...routeSegments.slice(0, -1), routeName);
+    contents =
+      "import { createIndexNowKeyApiHandler } from 'nextjs-indexing-pack';\n\n" +
+      'export default createIndexNowKeyApiHandler();\n';
+  }
+
+  if (await pathExists(filePath)) {
+    return { filePath, status: 'skipped' };
+  }
+  await ensureDirectory(path.dirname(filePath));
+  await fs.writeFile(filePath, contents, 'utf8');
+  return { filePath, status: 'created' };
+}
+
 async function appendEnvLocalEntry(key: string, value: string): Promise<'created' | 'updated' | 'skipped'> {
   const envPath = path.join(process.cwd(), '.env.local');
   const line = `${key}=${value}`;
@@ -46,6 +98,41 @@ async function appendEnvLocalEntry(key: string, value: string): Promise<'created
   }
 }
 
+export async function readEnvLocalEntry(key: string): Promise<string | undefined> {
+  const envPath = path.join(process.cwd(), '.env.local');
+  let contents: string;
+  try {
+    contents = await fs.readFile(envPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  const match = new RegExp(`^${escapeRegExp(key)}=(.*)$`, 'm').exec(contents);
+  return match ? match[1].trim().replace(/^(['"])(.*)\1$/, '$2') : undefined;
+}
+
+/**
+ * Sets `key` in `.env.local`, replacing the existing value unlike `appendEnvLocalEntry`.
+ */
+export async function setEnvLocalEntry(key: string, value: string): Promise<'created' | 'updated' | 'replaced'> {
+  const envPath = path.join(process.cwd(), '.env.local');
+  const keyPattern = new RegExp(`^${escapeRegExp(key)}=.*$`, 'm');
+  try {
+    const contents = await fs.readFile(envPath, 'utf8');
+    if (keyPattern.test(contents)) {
+      await fs.writeFile(envPath, contents.replace(keyPattern, () => `${key}=${value}`), 'utf8');
+      return 'replaced';
+    }
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  return appendEnvLocalEntry(key, value) as Promise<'created' | 'updated'>;
+}
+
 async function createDummyGoogleServiceAccount(filePath: string): Promise<'created' | 'skipped'> {
   try {
     await fs.access(filePath);
@@ -117,11 +204,22 @@ export async function runInit(): Promise<void> {
   try {
     const baseUrl = await promptForBaseUrl(rl);
 
-    const publicDir = path.join(process.cwd(), 'public');
-    await ensureDirectory(publicDir);
-
     const key = generateIndexNowKey();
-    const keyFilePath = await writeKeyFile(publicDir, key);
+    const serveKeyFromRoute = await confirm(
+      rl,
+      'Serve the IndexNow key from a route handler (reads INDEXNOW_KEY) instead of committing public/<key>.txt?',
+      false,
+    );
+
+    let keyFilePath: string | undefined;
+    let keyRoute: { filePath: string; status: 'created' | 'skipped' } | undefined;
+    if (serveKeyFromRoute) {
+      keyRoute = await scaffoldKeyRoute();
+    } else {
+      const publicDir = path.join(process.cwd(), 'public');
+      await ensureDirectory(publicDir);
+      keyFilePath = await writeKeyFile(publicDir, key);
+    }
 
     const shouldConfigureGoogle = await confirm(
       rl,
@@ -166,7 +264,13 @@ export async function runInit(): Promise<void> {
     console.log('\n✅ All set!');
     console.log(`• Base URL: ${baseUrl}`);
     console.log(`• Generated IndexNow key: ${key}`);
-    console.log(`• Key file created at: ${keyFilePath}`);
+    if (keyFilePath) {
+      console.log(`• Key file created at: ${keyFilePath}`);
+    } else if (keyRoute?.status === 'created') {
+      console.log(`• Key route created at: ${path.relative(process.cwd(), keyRoute.filePath)}`);
+    } else if (keyRoute) {
+      console.log(`• Re-used existing key route at: ${path.relative(process.cwd(), keyRoute.filePath)}`);
+    }
     if (googleServiceAccountStatus === 'created' && normalizedGooglePath) {
       console.log(`• Created dummy Google service account credentials at: ${normalizedGooglePath}`);
     } else if (googleServiceAccountStatus === 'skipped' && normalizedGooglePath) {
@@ -227,9 +331,15 @@ export async function runInit(): Promise<void> {
       console.log('   (The CLI reads INDEXNOW_KEY from your environment and your base URL from the config file).');
     }
     step += 1;
-    console.log(
-      `${step}. Deploy ${path.relative(process.cwd(), keyFilePath) || `${key}.txt`} so it is publicly accessible at ${baseUrl}/${key}.txt.`,
-    );
+    if (keyFilePath) {
+      console.log(
+        `${step}. Deploy ${path.relative(process.cwd(), keyFilePath) || `${key}.txt`} so it is publicly accessible at ${baseUrl}/${key}.txt.`,
+      );
+    } else {
+      console.log(`${step}. Add the key rewrite to next.config.js so the key is served at ${baseUrl}/${key}.txt:`);
+      console.log("   const { getIndexNowKeyRewrites } = require('nextjs-indexing-pack');");
+      console.log('   module.exports = { async rewrites() { return getIndexNowKeyRewrites(); } };');
+    }
     step += 1;
     if (normalizedGooglePath) {
       console.log(`${step}. Replace the dummy Google service account file with real credentials that have access to the Indexing API.`);
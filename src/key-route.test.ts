@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createIndexNowKeyApiHandler, createIndexNowKeyRoute, getIndexNowKeyRewrites } from './key-route';
+
+test('createIndexNowKeyRoute serves the key as plain text', async () => {
+  const response = createIndexNowKeyRoute({ key: 'abcdef0123456789' })();
+
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('content-type'), 'text/plain; charset=utf-8');
+  assert.equal(await response.text(), 'abcdef0123456789');
+  assert.equal(createIndexNowKeyRoute({ key: '' })().status, 404);
+});
+
+test('createIndexNowKeyApiHandler rejects other methods', () => {
+  const calls: Array<[string, unknown]> = [];
+  const res: any = {
+    setHeader: (name: string, value: string) => calls.push(['header', `${name}: ${value}`]),
+    status: (code: number) => {
+      calls.push(['status', code]);
+      return res;
+    },
+    send: (body: string) => calls.push(['send', body]),
+  };
+  const handler = createIndexNowKeyApiHandler({ key: 'abcdef0123456789' });
+
+  handler({ method: 'POST' } as any, res);
+  assert.deepEqual(calls, [
+    ['header', 'Allow: GET, HEAD'],
+    ['status', 405],
+    ['send', 'Method Not Allowed'],
+  ]);
+
+  calls.length = 0;
+  handler({ method: 'GET' } as any, res);
+  assert.deepEqual(calls.slice(-2), [
+    ['status', 200],
+    ['send', 'abcdef0123456789'],
+  ]);
+});
+
+test('createIndexNowKeyRoute serves the current and previous key at their own locations', async () => {
+  const GET = createIndexNowKeyRoute({ key: 'abcdef0123456789', previousKey: 'old-key-1234' });
+  const request = (key: string) => new Request(`https://example.com/api/indexnow-key?key=${key}`);
+
+  assert.equal(await GET(request('abcdef0123456789')).text(), 'abcdef0123456789');
+  assert.equal(await GET(request('old-key-1234')).text(), 'old-key-1234');
+  assert.equal(GET(request('other-key-5678')).status, 404);
+  assert.equal(await GET(new Request('https://example.com/indexnow.txt')).text(), 'abcdef0123456789');
+});
+
+test('getIndexNowKeyRewrites maps the key location to the key route', () => {
+  assert.deepEqual(getIndexNowKeyRewrites(), [
+    { source: '/:indexNowKey([a-zA-Z0-9-]{8,128}).txt', destination: '/api/indexnow-key?key=:indexNowKey' },
+  ]);
+  assert.deepEqual(getIndexNowKeyRewrites({ keyLocation: 'https://example.com/keys/indexnow.txt', destination: '/api/key' }), [
+    { source: '/keys/indexnow.txt', destination: '/api/key' },
+  ]);
+});
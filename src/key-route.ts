@@ -0,0 +1,116 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+/** Path of the route that serves the key when it is scaffolded by `init`. */
+export const DEFAULT_KEY_ROUTE_PATH = '/api/indexnow-key';
+
+const KEY_RESPONSE_HEADERS = {
+  'Content-Type': 'text/plain; charset=utf-8',
+  // Keep caches short-lived so a rotated key is picked up quickly.
+  'Cache-Control': 'public, max-age=300',
+  'X-Robots-Tag': 'noindex',
+};
+
+// Matches `/<key>.txt` for any valid IndexNow key, so the rewrite does not depend on the key at build time.
+const KEY_FILE_SOURCE = '/:indexNowKey([a-zA-Z0-9-]{8,128}).txt';
+
+export interface IndexNowKeyRouteOptions {
+  /**
+   * IndexNow key to serve. Defaults to the `INDEXNOW_KEY` environment variable, read on every request.
+   */
+  key?: string;
+  /**
+   * Key being retired by `rotate-key`, still served at its own `/<key>.txt` so both keys are valid during the
+   * rotation. Defaults to the `INDEXNOW_PREVIOUS_KEY` environment variable, read on every request.
+   */
+  previousKey?: string;
+}
+
+export interface IndexNowKeyRewriteOptions {
+  /**
+   * URL or path the key should be served at. Defaults to `/<key>.txt` for the key the route serves at request
+   * time. Rewrites are relative to `basePath`.
+   */
+  keyLocation?: string;
+  /**
+   * Route that serves the key. Defaults to `/api/indexnow-key`.
+   */
+  destination?: string;
+}
+
+function resolveKey(options: IndexNowKeyRouteOptions, requestedKey?: string | null): string | undefined {
+  const key = (options.key ?? process.env.INDEXNOW_KEY)?.trim();
+  // Requests without a key come from a fixed `keyLocation` and always receive the current key.
+  if (!requestedKey) {
+    return key || undefined;
+  }
+  const previousKey = (options.previousKey ?? process.env.INDEXNOW_PREVIOUS_KEY)?.trim();
+  return [key, previousKey].find((candidate) => candidate && candidate === requestedKey);
+}
+
+/**
+ * Creates an App Router route handler that serves the IndexNow key as plain text:
+ *
+ * ```ts
+ * // app/api/indexnow-key/route.ts
+ * export const dynamic = 'force-dynamic';
+ * export const GET = createIndexNowKeyRoute();
+ * ```
+ */
+export function createIndexNowKeyRoute(options: IndexNowKeyRouteOptions = {}): (request?: Request) => Response {
+  return function GET(request) {
+    const key = resolveKey(options, request ? new URL(request.url).searchParams.get('key') : undefined);
+    if (!key) {
+      return new Response('Not Found', { status: 404 });
+    }
+    return new Response(key, { status: 200, headers: KEY_RESPONSE_HEADERS });
+  };
+}
+
+/**
+ * Creates a Pages Router API route that serves the IndexNow key as plain text:
+ *
+ * ```ts
+ * // pages/api/indexnow-key.ts
+ * export default createIndexNowKeyApiHandler();
+ * ```
+ */
+export function createIndexNowKeyApiHandler(
+  options: IndexNowKeyRouteOptions = {},
+): (req: NextApiRequest, res: NextApiResponse) => void {
+  return function handler(req, res) {
+    if (req.method && req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('Allow', 'GET, HEAD');
+      res.status(405).send('Method Not Allowed');
+      return;
+    }
+    const requestedKey = req.query?.key;
+    const key = resolveKey(options, Array.isArray(requestedKey) ? requestedKey[0] : requestedKey);
+    if (!key) {
+      res.status(404).send('Not Found');
+      return;
+    }
+    for (const [name, value] of Object.entries(KEY_RESPONSE_HEADERS)) {
+      res.setHeader(name, value);
+    }
+    res.status(200).send(key);
+  };
+}
+
+/**
+ * Returns the `rewrites()` entries that expose the key route at `/<key>.txt` (or `keyLocation`), so the key
+ * never has to be committed as a file. The rewrite passes the requested key to the route, which compares it with
+ * the current key on every request, so a rotated key is served without rebuilding.
+ */
+export function getIndexNowKeyRewrites(
+  options: IndexNowKeyRewriteOptions = {},
+): Array<{ source: string; destination: string }> {
+  const destination = options.destination ?? DEFAULT_KEY_ROUTE_PATH;
+  if (!options.keyLocation) {
+    return [{ source: KEY_FILE_SOURCE, destination: `${destination}?key=:indexNowKey` }];
+  }
+  let source = options.keyLocation;
+  if (/^https?:\/\//i.test(source)) {
+    source = new URL(source).pathname;
+  }
+  return [{ source, destination }];
+}
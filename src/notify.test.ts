@@ -0,0 +1,43 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { notifySearchEngines, resolveNotificationUrls } from './notify';
+
+test('resolveNotificationUrls resolves paths against the base URL and removes duplicates', () => {
+  const urls = resolveNotificationUrls(
+    ['/blog/hello', 'about', 'https://example.com/blog/hello', ' '],
+    'https://example.com/',
+  );
+
+  assert.deepEqual(urls, ['https://example.com/blog/hello', 'https://example.com/about']);
+});
+
+test('notifySearchEngines submits the given paths and reports failing services', async (t) => {
+  const submitted: string[][] = [];
+  const keyLocations = new Set<string>();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_endpoint: string, init: RequestInit) => {
+    submitted.push(JSON.parse(init.body as string).urlList);
+    keyLocations.add(JSON.parse(init.body as string).keyLocation);
+    return new Response('', { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const result = await notifySearchEngines(['/blog/hello'], {
+    baseUrl: 'https://example.com',
+    key: 'abcdef0123456789',
+    engines: ['indexnow', 'google'],
+    serviceAccountPath: '/missing/service-account.json',
+    retry: false,
+  });
+
+  assert.deepEqual(result.urls, ['https://example.com/blog/hello']);
+  assert.ok(submitted.length > 0);
+  assert.ok(submitted.every((urlList) => urlList.length === 1 && urlList[0] === 'https://example.com/blog/hello'));
+  assert.ok(result.indexNow?.responses.every((response) => response.ok));
+  assert.deepEqual([...keyLocations], ['https://example.com/abcdef0123456789.txt']);
+  assert.equal(result.google, undefined);
+  assert.deepEqual(result.errors.map((error) => error.engine), ['google']);
+});
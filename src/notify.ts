@@ -0,0 +1,202 @@
+import { loadConfig } from './config';
+import { GOOGLE_SERVICE_ACCOUNT_JSON_ENV } from './google-auth';
+import type { GoogleCredentialsOptions } from './google-auth';
+import { submitToGoogleIndexing } from './google-indexing';
+import type { SubmitToGoogleIndexingResult } from './google-indexing';
+import { submitToIndexNow } from './indexnow';
+import type { SubmitToIndexNowResult } from './indexnow';
+import { enqueueUrls } from './outbox';
+import type { RetryPolicy } from './retry';
+
+export type NotificationType = 'updated' | 'deleted';
+
+export interface NotifySearchEnginesOptions extends GoogleCredentialsOptions {
+  /**
+   * `updated` for new or changed pages, `deleted` for removed pages. Deletions are sent to Google as
+   * `URL_DELETED`; IndexNow uses the same request for both. Defaults to `updated`.
+   */
+  type?: NotificationType;
+  /**
+   * Fully qualified base URL that paths are resolved against. Defaults to `baseUrl` from the config file.
+   */
+  baseUrl?: string;
+  /**
+   * IndexNow key value. Defaults to the `INDEXNOW_KEY` environment variable. IndexNow is skipped without a key.
+   */
+  key?: string;
+  /**
+   * Absolute URL of the key file. Defaults to `${baseUrl}/${key}.txt`.
+   */
+  keyLocation?: string;
+  /**
+   * Services to notify. Defaults to IndexNow and, when credentials are available, the Google Indexing API.
+   */
+  engines?: Array<'indexnow' | 'google'>;
+  /**
+   * Google publish requests per rolling day, recorded in the state file. See `submitToGoogleIndexing`. Defaults to
+   * `false`, so notifications sent at request time do not write to the filesystem.
+   */
+  dailyQuota?: number | false;
+  /**
+   * Location of the state file used for the Google quota ledger when `dailyQuota` is set.
+   */
+  stateFile?: string;
+  /**
+   * Leave out URLs that the site's robots.txt disallows, read from `public/robots.txt`. Defaults to false.
+   */
+  respectRobotsTxt?: boolean;
+  /**
+   * Retry policy for the HTTP requests. Pass `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * When set, URLs that could not be delivered are added to the outbox so `flush` can retry them. Pass `true`
+   * for `.nextjs-indexing-pack/outbox.json` or the path of the outbox file.
+   */
+  outbox?: boolean | string;
+  /**
+   * When true, URLs are resolved but not submitted.
+   */
+  dryRun?: boolean;
+}
+
+export interface NotifySearchEnginesError {
+  engine: 'indexnow' | 'google';
+  message: string;
+}
+
+export interface NotifySearchEnginesResult {
+  /** Fully qualified URLs that were notified */
+  urls: string[];
+  /** IndexNow result, unless IndexNow was skipped */
+  indexNow?: SubmitToIndexNowResult;
+  /** Google Indexing API result, unless Google was skipped */
+  google?: SubmitToGoogleIndexingResult;
+  /** Services that failed. A failure of one service does not prevent the other from being notified. */
+  errors: NotifySearchEnginesError[];
+  /** URLs added to the outbox because they could not be delivered (only set when `outbox` is enabled) */
+  enqueued?: Array<{ url: string; engine: 'indexnow' | 'google' }>;
+}
+
+function hasGoogleCredentials(options: GoogleCredentialsOptions): boolean {
+  return Boolean(
+    options.serviceAccount ||
+      options.serviceAccountPath ||
+      process.env[GOOGLE_SERVICE_ACCOUNT_JSON_ENV] ||
+      process.env.GOOGLE_APPLICATION_CREDENTIALS,
+  );
+}
+
+/**
+ * Resolves paths such as `/blog/hello` against the base URL. Fully qualified URLs are kept as they are.
+ */
+export function resolveNotificationUrls(pathsOrUrls: string[], baseUrl: string): string[] {
+  const base = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  const urls = new Set<string>();
+  for (const value of pathsOrUrls) {
+    const trimmed = value.trim();
+    if (!trimmed) continue;
+    if (/^https?:\/\//i.test(trimmed)) {
+      urls.add(new URL(trimmed).toString());
+    } else {
+      urls.add(new URL(`${base}${trimmed.startsWith('/') ? '' : '/'}${trimmed}`).toString());
+    }
+  }
+  return [...urls];
+}
+
+/**
+ * Notifies IndexNow and the Google Indexing API about specific pages, for example after `revalidatePath` or when
+ * a CMS publishes content. Unlike `submitToIndexNow` and `submitToGoogleIndexing`, the build output is not scanned.
+ */
+export async function notifySearchEngines(
+  pathsOrUrls: string | string[],
+  options: NotifySearchEnginesOptions = {},
+): Promise<NotifySearchEnginesResult> {
+  const {
+    type = 'updated',
+    engines,
+    dailyQuota = false,
+    stateFile,
+    respectRobotsTxt = false,
+    retry,
+    outbox,
+    dryRun,
+  } = options;
+  const baseUrl = options.baseUrl ?? (await loadConfig())?.baseUrl;
+  if (!baseUrl) {
+    throw new Error('`baseUrl` must be provided (or set in the nextjs-indexing-pack config file).');
+  }
+  const urls = resolveNotificationUrls(Array.isArray(pathsOrUrls) ? pathsOrUrls : [pathsOrUrls], baseUrl);
+  const result: NotifySearchEnginesResult = { urls, errors: [] };
+  if (!urls.length) {
+    return result;
+  }
+
+  const key = options.key ?? process.env.INDEXNOW_KEY;
+  const notifyIndexNow = engines ? engines.includes('indexnow') : Boolean(key);
+  const notifyGoogle = engines ? engines.includes('google') : hasGoogleCredentials(options);
+
+  const undelivered: Record<'indexnow' | 'google', string[]> = { indexnow: [], google: [] };
+
+  if (notifyIndexNow) {
+    try {
+      if (!key) {
+        throw new Error('Missing IndexNow key. Pass `key` or set INDEXNOW_KEY.');
+      }
+      const keyLocation = options.keyLocation ?? `${baseUrl.replace(/\/+$/, '')}/${key}.txt`;
+      result.indexNow = await submitToIndexNow({ baseUrl, key, keyLocation, urls, respectRobotsTxt, retry, dryRun });
+      undelivered.indexnow = result.indexNow.rejectedUrls ?? [];
+    } catch (error: any) {
+      result.errors.push({ engine: 'indexnow', message: error?.message ?? String(error) });
+      undelivered.indexnow = urls;
+    }
+  }
+
+  if (notifyGoogle) {
+    // Same precedence as the CLI: GOOGLE_SERVICE_ACCOUNT_JSON wins over GOOGLE_APPLICATION_CREDENTIALS.
+    const serviceAccountPath =
+      options.serviceAccountPath ??
+      (process.env[GOOGLE_SERVICE_ACCOUNT_JSON_ENV] ? undefined : process.env.GOOGLE_APPLICATION_CREDENTIALS);
+    try {
+      result.google = await submitToGoogleIndexing({
+        baseUrl,
+        serviceAccount: options.serviceAccount,
+        serviceAccountPath,
+        tokenCacheFile: options.tokenCacheFile,
+        notificationType: type === 'deleted' ? 'URL_DELETED' : 'URL_UPDATED',
+        urls,
+        dailyQuota,
+        stateFile,
+        respectRobotsTxt,
+        retry,
+        dryRun,
+      });
+      if (!dryRun) {
+        // Notifications deferred by the daily quota are already queued in the state file.
+        const queued = new Set(result.google.queuedUrls ?? []);
+        const delivered = new Set(result.google.responses.filter((response) => response.ok).map((entry) => entry.url));
+        undelivered.google = result.google.urls.filter((url) => !delivered.has(url) && !queued.has(url));
+      }
+    } catch (error: any) {
+      result.errors.push({ engine: 'google', message: error?.message ?? String(error) });
+      undelivered.google = urls;
+    }
+  }
+
+  if (outbox && !dryRun) {
+    const outboxPath = typeof outbox === 'string' ? outbox : undefined;
+    result.enqueued = [];
+    for (const engine of ['indexnow', 'google'] as const) {
+      if (!undelivered[engine].length) continue;
+      const error = result.errors.find((entry) => entry.engine === engine)?.message;
+      await enqueueUrls(
+        undelivered[engine].map((url) => ({ url, type })),
+        { engines: [engine], outboxPath, error },
+      );
+      result.enqueued.push(...undelivered[engine].map((url) => ({ url, engine })));
+    }
+  }
+
+  return result;
+}
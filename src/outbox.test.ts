@@ -0,0 +1,171 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { enqueueUrls, flushOutbox, readOutbox, writeOutbox } from './outbox';
+
+test('enqueueUrls collapses duplicates per engine and keeps the latest type', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const outboxPath = path.join(dir, 'outbox.json');
+
+  const first = await enqueueUrls(['https://example.com/a', 'https://example.com/b'], { outboxPath });
+  const second = await enqueueUrls([{ url: 'https://example.com/a', type: 'deleted' }], {
+    outboxPath,
+    engines: ['google'],
+  });
+
+  assert.deepEqual(first, { added: 4, merged: 0 });
+  assert.deepEqual(second, { added: 0, merged: 1 });
+  const items = await readOutbox(outboxPath);
+  assert.equal(items.length, 4);
+  assert.deepEqual(
+    items.map((item) => `${item.engine} ${item.url} ${item.type}`),
+    [
+      'indexnow https://example.com/a updated',
+      'google https://example.com/a deleted',
+      'indexnow https://example.com/b updated',
+      'google https://example.com/b updated',
+    ],
+  );
+});
+
+test('flushOutbox keeps failed items with their attempts and removes delivered ones', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const outboxPath = path.join(dir, 'outbox.json');
+  await enqueueUrls(['https://example.com/a'], { outboxPath, engines: ['indexnow'] });
+
+  let status = 503;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => new Response('', { status })) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+  const options = { baseUrl: 'https://example.com', key: 'abcdef0123456789', outboxPath, retry: false as const };
+
+  const failedRun = await flushOutbox(options);
+  assert.equal(failedRun.delivered.length, 0);
+  assert.equal(failedRun.failed.length, 1);
+  assert.equal(failedRun.remaining, 1);
+  const [pending] = await readOutbox(outboxPath);
+  assert.equal(pending.attempts, 1);
+  assert.match(pending.lastError ?? '', /status 503/);
+
+  status = 200;
+  const deliveredRun = await flushOutbox(options);
+  assert.deepEqual(deliveredRun.delivered.map((item) => item.url), ['https://example.com/a']);
+  assert.equal(deliveredRun.remaining, 0);
+  assert.deepEqual(await readOutbox(outboxPath), []);
+});
+
+test('flushOutbox defers Google items throttled with 429 and keeps them out of the quota queue', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const outboxPath = path.join(dir, 'outbox.json');
+  const serviceAccountPath = path.join(dir, 'service-account.json');
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  await fs.writeFile(
+    serviceAccountPath,
+    JSON.stringify({
+      client_email: 'indexer@example.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    }),
+  );
+  await enqueueUrls(['https://example.com/a'], { outboxPath, engines: ['google'] });
+
+  let status = 429;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (endpoint: string) => {
+    if (endpoint === 'https://oauth2.googleapis.com/token') {
+      return new Response(JSON.stringify({ access_token: 'token' }), { status: 200 });
+    }
+    return new Response('{}', { status });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+  const options = { baseUrl: 'https://example.com', serviceAccountPath, outboxPath, retry: false as const };
+
+  const throttledRun = await flushOutbox(options);
+  assert.deepEqual(throttledRun.deferred.map((item) => item.url), ['https://example.com/a']);
+  assert.equal(throttledRun.failed.length, 0);
+  const [pending] = await readOutbox(outboxPath);
+  assert.equal(pending.attempts, 0);
+
+  status = 200;
+  const deliveredRun = await flushOutbox(options);
+  assert.deepEqual(deliveredRun.delivered.map((item) => item.url), ['https://example.com/a']);
+  assert.equal(deliveredRun.remaining, 0);
+});
+
+test('flushOutbox only delivers the items of the selected site', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const outboxPath = path.join(dir, 'outbox.json');
+  await enqueueUrls(['https://example.com/a'], { outboxPath, engines: ['indexnow'], site: 'main' });
+  await enqueueUrls(['https://docs.example.org/b'], { outboxPath, engines: ['indexnow'], site: 'docs' });
+
+  const requests: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_endpoint: string, init?: RequestInit) => {
+    requests.push(String(init?.body));
+    return new Response('', { status: 200 });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const result = await flushOutbox({
+    baseUrl: 'https://docs.example.org',
+    key: 'abcdef0123456789',
+    site: 'docs',
+    outboxPath,
+    retry: false,
+  });
+
+  assert.deepEqual(result.delivered.map((item) => item.url), ['https://docs.example.org/b']);
+  assert.equal(result.remaining, 1);
+  assert.ok(requests.every((body) => !body.includes('example.com/a')));
+  assert.deepEqual(
+    (await readOutbox(outboxPath)).map((item) => `${item.site} ${item.url}`),
+    ['main https://example.com/a'],
+  );
+});
+
+test('flushOutbox keeps IndexNow items that no endpoint explicitly accepted', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const outboxPath = path.join(dir, 'outbox.json');
+  // Written by hand, so the URL is not in the normalized form submitToIndexNow sends.
+  await writeOutbox(
+    [
+      {
+        url: 'https://example.com',
+        engine: 'indexnow',
+        type: 'updated',
+        enqueuedAt: '2024-06-01T00:00:00.000Z',
+        attempts: 0,
+      },
+    ],
+    outboxPath,
+  );
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => new Response('', { status: 200 })) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const options = { baseUrl: 'https://example.com', key: 'abcdef0123456789', outboxPath, retry: false as const };
+  const result = await flushOutbox(options);
+
+  assert.equal(result.delivered.length, 0);
+  assert.equal(result.failed.length, 1);
+  const [pending] = await readOutbox(outboxPath);
+  assert.equal(pending.attempts, 1);
+  assert.match(pending.lastError ?? '', /Left out of every IndexNow batch/);
+});
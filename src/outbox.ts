@@ -0,0 +1,339 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { GoogleCredentialsOptions } from './google-auth';
+import { submitToGoogleIndexing } from './google-indexing';
+import { submitToIndexNow } from './indexnow';
+import type { NotificationType } from './notify';
+import type { RetryPolicy } from './retry';
+import type { SubmissionEngine } from './state';
+
+export const DEFAULT_OUTBOX_PATH = path.join('.nextjs-indexing-pack', 'outbox.json');
+
+const OUTBOX_VERSION = 1;
+
+export interface OutboxItem {
+  url: string;
+  engine: SubmissionEngine;
+  /** Site of a multi-site config the URL belongs to. Only flushes for that site deliver the item. */
+  site?: string;
+  type: NotificationType;
+  /** ISO timestamp of the first time the URL was enqueued for this engine */
+  enqueuedAt: string;
+  /** Number of failed delivery attempts */
+  attempts: number;
+  /** ISO timestamp of the last delivery attempt */
+  lastAttemptAt?: string;
+  /** Error of the last delivery attempt */
+  lastError?: string;
+}
+
+export interface OutboxEntry {
+  url: string;
+  /** Defaults to `updated` */
+  type?: NotificationType;
+}
+
+export interface EnqueueOptions {
+  /** Engines to deliver the URLs to. Defaults to both IndexNow and the Google Indexing API. */
+  engines?: SubmissionEngine[];
+  /** Location of the outbox file. Defaults to `.nextjs-indexing-pack/outbox.json`. */
+  outboxPath?: string;
+  /** Error that caused the URLs to be enqueued, recorded as `lastError` */
+  error?: string;
+  /** Site of a multi-site config the URLs belong to */
+  site?: string;
+}
+
+export interface EnqueueResult {
+  /** Items that were not in the outbox yet */
+  added: number;
+  /** Items that collapsed into an item already in the outbox */
+  merged: number;
+}
+
+export interface FlushOutboxOptions extends GoogleCredentialsOptions {
+  /**
+   * Fully qualified base URL of your Next.js application (e.g. https://example.com)
+   */
+  baseUrl: string;
+  /**
+   * IndexNow key value. IndexNow items fail with an error when no key is given.
+   */
+  key?: string;
+  /**
+   * Absolute URL of the key file. Defaults to `${baseUrl}/${key}.txt`.
+   */
+  keyLocation?: string;
+  /**
+   * Only flush the items of these engines. Defaults to every engine.
+   */
+  engines?: SubmissionEngine[];
+  /**
+   * Site of a multi-site config whose items are flushed with `baseUrl`, `key` and the credentials. Items of other
+   * sites stay in the outbox. Without `site`, only items enqueued without a site are flushed.
+   */
+  site?: string;
+  /**
+   * Location of the outbox file. Defaults to `.nextjs-indexing-pack/outbox.json`.
+   */
+  outboxPath?: string;
+  /**
+   * Retry policy for the HTTP requests. Pass `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
+}
+
+export interface FlushOutboxResult {
+  /** Items that were delivered and removed from the outbox */
+  delivered: OutboxItem[];
+  /** Items that failed again. They stay in the outbox with an increased `attempts` count. */
+  failed: OutboxItem[];
+  /** Items that stay in the outbox without counting as a failure, because Google answered 429 (quota exhausted) */
+  deferred: OutboxItem[];
+  /** Items left in the outbox after the flush */
+  remaining: number;
+}
+
+interface OutboxFile {
+  version: number;
+  items: OutboxItem[];
+}
+
+export function resolveOutboxPath(outboxPath = DEFAULT_OUTBOX_PATH): string {
+  return path.resolve(outboxPath);
+}
+
+export async function readOutbox(outboxPath?: string): Promise<OutboxItem[]> {
+  const resolvedPath = resolveOutboxPath(outboxPath);
+  let contents: string;
+  try {
+    contents = await fs.readFile(resolvedPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Failed to parse nextjs-indexing-pack outbox at ${resolvedPath}: ${(error as Error).message}`);
+  }
+  // Unlike the state file, the outbox is never discarded: it holds notifications that were not delivered yet.
+  if (!parsed || typeof parsed !== 'object' || parsed.version !== OUTBOX_VERSION || !Array.isArray(parsed.items)) {
+    throw new Error(`Unsupported nextjs-indexing-pack outbox format at ${resolvedPath}.`);
+  }
+  return parsed.items;
+}
+
+export async function writeOutbox(items: OutboxItem[], outboxPath?: string): Promise<void> {
+  const resolvedPath = resolveOutboxPath(outboxPath);
+  const contents: OutboxFile = { version: OUTBOX_VERSION, items };
+  await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+  // Write to a temporary file first so an interrupted write never truncates the outbox.
+  const temporaryPath = `${resolvedPath}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryPath, `${JSON.stringify(contents, null, 2)}\n`, 'utf8');
+  await fs.rename(temporaryPath, resolvedPath);
+}
+
+function itemKey(item: Pick<OutboxItem, 'engine' | 'url'>): string {
+  return `${item.engine} ${item.url}`;
+}
+
+/**
+ * Adds URLs to the outbox. A URL that is already pending for an engine collapses into the existing item, which
+ * takes the latest notification type and keeps its attempt count.
+ */
+export async function enqueueUrls(
+  entries: Array<string | OutboxEntry>,
+  options: EnqueueOptions = {},
+): Promise<EnqueueResult> {
+  const { engines = ['indexnow', 'google'], outboxPath, error, site } = options;
+  const items = await readOutbox(outboxPath);
+  const byKey = new Map(items.map((item) => [itemKey(item), item]));
+  const now = new Date().toISOString();
+  const result: EnqueueResult = { added: 0, merged: 0 };
+
+  for (const entry of entries) {
+    const { url, type = 'updated' } = typeof entry === 'string' ? { url: entry } : entry;
+    let normalizedUrl: string;
+    try {
+      normalizedUrl = new URL(url).toString();
+    } catch {
+      throw new Error(`Invalid URL provided to enqueueUrls: ${url}`);
+    }
+    for (const engine of engines) {
+      const key = itemKey({ engine, url: normalizedUrl });
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.type = type;
+        if (site !== undefined) {
+          existing.site = site;
+        }
+        if (error) {
+          existing.lastError = error;
+        }
+        result.merged += 1;
+        continue;
+      }
+      const item: OutboxItem = { url: normalizedUrl, engine, type, enqueuedAt: now, attempts: 0 };
+      if (site !== undefined) {
+        item.site = site;
+      }
+      if (error) {
+        item.lastError = error;
+      }
+      items.push(item);
+      byKey.set(key, item);
+      result.added += 1;
+    }
+  }
+
+  await writeOutbox(items, outboxPath);
+  return result;
+}
+
+function markFailed(item: OutboxItem, error: string, attemptedAt: string): void {
+  item.attempts += 1;
+  item.lastAttemptAt = attemptedAt;
+  item.lastError = error;
+}
+
+async function flushIndexNow(
+  items: OutboxItem[],
+  options: FlushOutboxOptions,
+  attemptedAt: string,
+): Promise<{ delivered: OutboxItem[]; failed: OutboxItem[] }> {
+  const { baseUrl, key, keyLocation, retry } = options;
+  if (!items.length) {
+    return { delivered: [], failed: [] };
+  }
+  if (!key) {
+    const error = 'Missing IndexNow key. Pass --key <value> or set INDEXNOW_KEY.';
+    items.forEach((item) => markFailed(item, error, attemptedAt));
+    return { delivered: [], failed: items };
+  }
+  try {
+    // The URLs were filtered when they were enqueued; filtering them again would drop them without a response.
+    const result = await submitToIndexNow({
+      baseUrl,
+      key,
+      keyLocation,
+      urls: items.map((item) => item.url),
+      respectRobotsTxt: false,
+      retry,
+    });
+    // URLs that were left out of every batch got no response, so only an explicit acceptance delivers an item.
+    const accepted = new Set(result.acceptedUrls ?? []);
+    const rejected = new Set(result.rejectedUrls ?? []);
+    const errors = result.responses
+      .filter((response) => !response.ok)
+      .map((response) => `${response.endpoint} responded with status ${response.status}`);
+    const failed = items.filter((item) => !accepted.has(item.url));
+    for (const item of failed) {
+      const error = rejected.has(item.url)
+        ? errors.join('; ') || 'Rejected by every endpoint.'
+        : 'Left out of every IndexNow batch, so no endpoint accepted it.';
+      markFailed(item, error, attemptedAt);
+    }
+    return { delivered: items.filter((item) => accepted.has(item.url)), failed };
+  } catch (error: any) {
+    items.forEach((item) => markFailed(item, error?.message ?? String(error), attemptedAt));
+    return { delivered: [], failed: items };
+  }
+}
+
+async function flushGoogle(
+  items: OutboxItem[],
+  options: FlushOutboxOptions,
+  attemptedAt: string,
+): Promise<{ delivered: OutboxItem[]; failed: OutboxItem[]; deferred: OutboxItem[] }> {
+  const outcome = { delivered: [] as OutboxItem[], failed: [] as OutboxItem[], deferred: [] as OutboxItem[] };
+  for (const type of ['updated', 'deleted'] as const) {
+    const group = items.filter((item) => item.type === type);
+    if (!group.length) continue;
+    try {
+      const result = await submitToGoogleIndexing({
+        baseUrl: options.baseUrl,
+        serviceAccount: options.serviceAccount,
+        serviceAccountPath: options.serviceAccountPath,
+        tokenCacheFile: options.tokenCacheFile,
+        notificationType: type === 'deleted' ? 'URL_DELETED' : 'URL_UPDATED',
+        urls: group.map((item) => item.url),
+        // The outbox is the only queue for these items: the quota ledger would queue them a second time.
+        dailyQuota: false,
+        respectRobotsTxt: false,
+        retry: options.retry,
+      });
+      const responses = new Map(result.responses.map((response) => [response.url, response]));
+      for (const item of group) {
+        const response = responses.get(item.url);
+        if (response?.ok) {
+          outcome.delivered.push(item);
+        } else if (response?.status === 429) {
+          item.lastAttemptAt = attemptedAt;
+          item.lastError = 'Deferred because the Google Indexing API quota is exhausted (status 429).';
+          outcome.deferred.push(item);
+        } else {
+          const error = response
+            ? `Google responded with status ${response.status}${response.body ? `: ${response.body}` : ''}`
+            : 'No response from the Google Indexing API.';
+          markFailed(item, error, attemptedAt);
+          outcome.failed.push(item);
+        }
+      }
+    } catch (error: any) {
+      group.forEach((item) => markFailed(item, error?.message ?? String(error), attemptedAt));
+      outcome.failed.push(...group);
+    }
+  }
+  return outcome;
+}
+
+/**
+ * Submits the pending outbox items with `submitToIndexNow` and `submitToGoogleIndexing`. Delivered items are
+ * removed; failed items stay in the outbox with their attempt count and last error.
+ */
+export async function flushOutbox(options: FlushOutboxOptions): Promise<FlushOutboxResult> {
+  const { engines, outboxPath } = options;
+  if (!options.baseUrl) {
+    throw new Error('`baseUrl` must be provided.');
+  }
+  const items = await readOutbox(outboxPath);
+  const selected = items.filter(
+    (item) => item.site === options.site && (!engines || engines.includes(item.engine)),
+  );
+  if (!selected.length) {
+    return { delivered: [], failed: [], deferred: [], remaining: items.length };
+  }
+
+  const attemptedAt = new Date().toISOString();
+  const indexNow = await flushIndexNow(
+    selected.filter((item) => item.engine === 'indexnow'),
+    options,
+    attemptedAt,
+  );
+  const googleItems = selected.filter((item) => item.engine === 'google');
+  const google = googleItems.length
+    ? await flushGoogle(googleItems, options, attemptedAt)
+    : { delivered: [], failed: [], deferred: [] };
+
+  const delivered = [...indexNow.delivered, ...google.delivered];
+  const deliveredKeys = new Set(delivered.map(itemKey));
+  const updated = new Map(selected.map((item) => [itemKey(item), item]));
+  // Items enqueued while the flush was running are kept.
+  const latest = await readOutbox(outboxPath);
+  const remainingItems = latest
+    .filter((item) => !deliveredKeys.has(itemKey(item)))
+    .map((item) => updated.get(itemKey(item)) ?? item);
+  await writeOutbox(remainingItems, outboxPath);
+
+  return {
+    delivered,
+    failed: [...indexNow.failed, ...google.failed],
+    deferred: google.deferred,
+    remaining: remainingItems.length,
+  };
+}
@@ -0,0 +1,121 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { formatReport, shouldFailReport, summarizeReport } from './report';
+import type { SubmissionReport } from './report';
+
+function createReport(googleOk: boolean[]): SubmissionReport {
+  return {
+    startedAt: '2024-01-01T00:00:00.000Z',
+    finishedAt: '2024-01-01T00:00:05.000Z',
+    dryRun: false,
+    indexNow: {
+      urls: ['https://example.com/'],
+      responses: [
+        {
+          endpoint: 'https://api.indexnow.org/indexnow',
+          host: 'example.com',
+          batch: 1,
+          batchCount: 1,
+          urlCount: 1,
+          attempts: 1,
+          status: 200,
+          ok: true,
+        },
+      ],
+    },
+    google: {
+      urls: googleOk.map((_, index) => `https://example.com/${index}?a=1&b=2`),
+      responses: googleOk.map((ok, index) => ({
+        url: `https://example.com/${index}?a=1&b=2`,
+        attempts: 1,
+        status: ok ? 200 : 403,
+        ok,
+        body: ok ? undefined : 'Permission denied <owner>',
+      })),
+    },
+    errors: [],
+    skipped: [],
+  };
+}
+
+test('shouldFailReport applies the any, all and none policies', () => {
+  const partial = createReport([false]);
+  assert.deepEqual(summarizeReport(partial), { total: 2, succeeded: 1, failed: 1 });
+  assert.equal(shouldFailReport(partial, 'any'), true);
+  assert.equal(shouldFailReport(partial, 'all'), false);
+  assert.equal(shouldFailReport(partial, 'none'), false);
+
+  const broken = createReport([false]);
+  broken.indexNow!.responses[0] = { ...broken.indexNow!.responses[0], status: 403, ok: false };
+  broken.errors.push({ engine: 'google', message: 'invalid credentials' });
+  assert.equal(shouldFailReport(broken, 'all'), true);
+
+  assert.equal(shouldFailReport({ ...createReport([]), indexNow: undefined }, 'any'), false);
+});
+
+test('formatReport renders ndjson, markdown and junit', () => {
+  const report = createReport([true, false]);
+
+  const lines = formatReport(report, 'ndjson').trim().split('\n').map((line) => JSON.parse(line));
+  assert.equal(lines.length, 4);
+  assert.deepEqual(lines[3].type, 'summary');
+  assert.equal(lines[3].failed, 1);
+
+  const markdown = formatReport(report, 'markdown');
+  assert.match(markdown, /\*\*2 of 3 request\(s\) succeeded\.\*\*/);
+  const failedRow = '| Google Indexing API | https://example.com/1?a=1&b=2 | 1 | 403 | ❌ failed: Permission denied <owner> |';
+  assert.ok(markdown.includes(failedRow));
+
+  const junit = formatReport(report, 'junit');
+  assert.match(junit, /<testsuites name="nextjs-indexing-pack" tests="3" failures="1">/);
+  assert.match(junit, /name="https:\/\/example\.com\/1\?a=1&amp;b=2"/);
+  assert.match(junit, /<failure message="status 403">Permission denied &lt;owner&gt;<\/failure>/);
+});
+
+test('formatReport aggregates the results of every site', () => {
+  const web = createReport([true]);
+  const docs = createReport([false]);
+  const report: SubmissionReport = {
+    startedAt: web.startedAt,
+    finishedAt: web.finishedAt,
+    dryRun: false,
+    errors: [],
+    skipped: [],
+    sites: [
+      { site: 'web', indexNow: web.indexNow, google: web.google, errors: [], skipped: [] },
+      {
+        site: 'docs',
+        indexNow: docs.indexNow,
+        google: docs.google,
+        errors: [],
+        skipped: [{ engine: 'indexnow', reason: 'disabled in the config file' }],
+      },
+    ],
+  };
+  assert.deepEqual(summarizeReport(report), { total: 4, succeeded: 3, failed: 1 });
+  assert.equal(shouldFailReport(report, 'any'), true);
+
+  const lines = formatReport(report, 'ndjson').trim().split('\n').map((line) => JSON.parse(line));
+  assert.deepEqual(
+    lines.map((line) => [line.type, line.site, line.engine]),
+    [
+      ['result', 'web', 'indexnow'],
+      ['result', 'web', 'google'],
+      ['result', 'docs', 'indexnow'],
+      ['result', 'docs', 'google'],
+      ['skipped', 'docs', 'indexnow'],
+      ['summary', undefined, undefined],
+    ],
+  );
+
+  const markdown = formatReport(report, 'markdown');
+  assert.ok(markdown.includes('| Site | Engine | Target | URLs | Status | Result |'));
+  assert.ok(markdown.includes('| docs | Google Indexing API | https://example.com/0?a=1&b=2 | 1 | 403 |'));
+  assert.ok(markdown.includes('- [docs] IndexNow: skipped (disabled in the config file).'));
+
+  const junit = formatReport(report, 'junit');
+  assert.match(junit, /<testsuites name="nextjs-indexing-pack" tests="5" failures="1">/);
+  assert.match(junit, /<testsuite name="\[web\] IndexNow" tests="1" failures="0" skipped="0">/);
+  assert.match(junit, /<testcase classname="docs\.google" name="https:\/\/example\.com\/0\?a=1&amp;b=2">/);
+});
@@ -0,0 +1,313 @@
+import { escapeXml } from './generate-sitemap';
+import type { SubmitToGoogleIndexingResult } from './google-indexing';
+import type { SubmitToIndexNowResult } from './indexnow';
+import type { SubmissionEngine } from './state';
+
+export type ReportFormat = 'text' | 'json' | 'ndjson' | 'markdown' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'ndjson', 'markdown', 'junit'];
+
+/**
+ * When a submission fails the run: `any` failed request, `all` requests failing, or `none` to always succeed.
+ */
+export type FailOnPolicy = 'any' | 'all' | 'none';
+
+export const FAIL_ON_POLICIES: FailOnPolicy[] = ['any', 'all', 'none'];
+
+export interface SubmissionReport {
+  /** ISO timestamp of the start of the run */
+  startedAt: string;
+  /** ISO timestamp of the end of the run */
+  finishedAt: string;
+  dryRun: boolean;
+  indexNow?: SubmitToIndexNowResult;
+  google?: SubmitToGoogleIndexingResult;
+  /** Engines whose submission threw before any result was available */
+  errors: Array<{ engine: SubmissionEngine; message: string }>;
+  /** Engines that were not submitted to, for example because no credentials are configured */
+  skipped: Array<{ engine: SubmissionEngine; reason: string }>;
+  /** Results per site when the config defines `sites`. The engine results above are then left empty. */
+  sites?: SiteSubmissionReport[];
+}
+
+export interface SiteSubmissionReport {
+  /** Name of the site in the `sites` config */
+  site: string;
+  indexNow?: SubmitToIndexNowResult;
+  google?: SubmitToGoogleIndexingResult;
+  errors: SubmissionReport['errors'];
+  skipped: SubmissionReport['skipped'];
+}
+
+/**
+ * Outcome of a single request: an IndexNow batch sent to one endpoint, a Google notification, or an engine
+ * whose submission failed as a whole.
+ */
+export interface ReportOutcome {
+  /** Site the request was sent for, in reports of multi-site configs */
+  site?: string;
+  engine: SubmissionEngine;
+  /** Endpoint and batch for IndexNow, the notified URL for Google */
+  target: string;
+  urlCount: number;
+  ok: boolean;
+  /** HTTP status, or 0 when no response was received */
+  status: number;
+  attempts: number;
+  message?: string;
+}
+
+export interface ReportSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+const ENGINE_LABELS: Record<SubmissionEngine, string> = {
+  indexnow: 'IndexNow',
+  google: 'Google Indexing API',
+};
+
+type ReportPart = Omit<SiteSubmissionReport, 'site'> & { site?: string };
+
+// Multi-site reports keep their results per site; every other report is a single part.
+function getReportParts(report: SubmissionReport): ReportPart[] {
+  return report.sites ?? [report];
+}
+
+function getSiteField(part: ReportPart): { site?: string } {
+  return part.site === undefined ? {} : { site: part.site };
+}
+
+function getSiteLabel(part: ReportPart, engine: SubmissionEngine): string {
+  return part.site === undefined ? ENGINE_LABELS[engine] : `[${part.site}] ${ENGINE_LABELS[engine]}`;
+}
+
+function getReportSkipped(report: SubmissionReport): Array<ReportPart['skipped'][number] & { site?: string }> {
+  return getReportParts(report).flatMap((part) => part.skipped.map((entry) => ({ ...getSiteField(part), ...entry })));
+}
+
+/** Returns every request of the report, across all sites of multi-site reports. */
+export function getReportOutcomes(report: SubmissionReport): ReportOutcome[] {
+  return getReportParts(report).flatMap(getPartOutcomes);
+}
+
+function getPartOutcomes(part: ReportPart): ReportOutcome[] {
+  const outcomes: ReportOutcome[] = [];
+  const site = getSiteField(part);
+  for (const response of part.indexNow?.responses ?? []) {
+    const batchLabel = response.batchCount > 1 ? `, batch ${response.batch}/${response.batchCount}` : '';
+    outcomes.push({
+      ...site,
+      engine: 'indexnow',
+      target: `${response.endpoint} (${response.host}${batchLabel})`,
+      urlCount: response.urlCount,
+      ok: response.ok,
+      status: response.status,
+      attempts: response.attempts,
+      message: response.body,
+    });
+  }
+  for (const response of part.google?.responses ?? []) {
+    outcomes.push({
+      ...site,
+      engine: 'google',
+      target: response.url,
+      urlCount: 1,
+      ok: response.ok,
+      status: response.status,
+      attempts: response.attempts,
+      message: response.body,
+    });
+  }
+  for (const error of part.errors) {
+    outcomes.push({
+      ...site,
+      engine: error.engine,
+      target: ENGINE_LABELS[error.engine],
+      urlCount: 0,
+      ok: false,
+      status: 0,
+      attempts: 0,
+      message: error.message,
+    });
+  }
+  return outcomes;
+}
+
+export function summarizeReport(report: SubmissionReport): ReportSummary {
+  const outcomes = getReportOutcomes(report);
+  const failed = outcomes.filter((outcome) => !outcome.ok).length;
+  return { total: outcomes.length, succeeded: outcomes.length - failed, failed };
+}
+
+/**
+ * Returns true when the run should exit with a non-zero code under `policy`. Dry runs and runs without requests
+ * never fail.
+ */
+export function shouldFailReport(report: SubmissionReport, policy: FailOnPolicy): boolean {
+  const { total, failed } = summarizeReport(report);
+  if (policy === 'none' || total === 0) {
+    return false;
+  }
+  return policy === 'any' ? failed > 0 : failed === total;
+}
+
+function formatJson(report: SubmissionReport): string {
+  return `${JSON.stringify({ ...report, summary: summarizeReport(report) }, null, 2)}\n`;
+}
+
+function formatNdjson(report: SubmissionReport): string {
+  const lines: unknown[] = getReportOutcomes(report).map((outcome) => ({ type: 'result', ...outcome }));
+  for (const skipped of getReportSkipped(report)) {
+    lines.push({ type: 'skipped', ...skipped });
+  }
+  lines.push({
+    type: 'summary',
+    ...summarizeReport(report),
+    dryRun: report.dryRun,
+    startedAt: report.startedAt,
+    finishedAt: report.finishedAt,
+  });
+  return lines.map((line) => `${JSON.stringify(line)}\n`).join('');
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatMarkdown(report: SubmissionReport): string {
+  const summary = summarizeReport(report);
+  const lines = ['### nextjs-indexing-pack submission', ''];
+  const parts = getReportParts(report);
+  if (report.dryRun) {
+    const count = (engine: 'indexNow' | 'google') =>
+      parts.reduce((total, part) => total + (part[engine]?.urls.length ?? 0), 0);
+    lines.push(
+      `Dry run: discovered ${count('indexNow')} URL(s) for IndexNow and ` +
+        `${count('google')} URL(s) for the Google Indexing API` +
+        `${report.sites ? ` across ${report.sites.length} site(s)` : ''}.`,
+    );
+  } else {
+    lines.push(`**${summary.succeeded} of ${summary.total} request(s) succeeded.**`);
+    const outcomes = getReportOutcomes(report);
+    if (outcomes.length) {
+      const siteHeader = report.sites ? ['| Site ', '| --- '] : ['', ''];
+      lines.push(
+        '',
+        `${siteHeader[0]}| Engine | Target | URLs | Status | Result |`,
+        `${siteHeader[1]}| --- | --- | --- | --- | --- |`,
+      );
+      for (const outcome of outcomes) {
+        const result = outcome.ok ? '✅ ok' : `❌ failed${outcome.message ? `: ${outcome.message}` : ''}`;
+        const siteCell = report.sites ? `| ${escapeMarkdownCell(outcome.site ?? '')} ` : '';
+        lines.push(
+          `${siteCell}| ${ENGINE_LABELS[outcome.engine]} | ${escapeMarkdownCell(outcome.target)} | ` +
+            `${outcome.urlCount} | ${outcome.status || '-'} | ${escapeMarkdownCell(result)} |`,
+        );
+      }
+    }
+  }
+  const notes: string[] = [];
+  for (const part of parts) {
+    for (const [engine, result] of [
+      ['indexnow', part.indexNow],
+      ['google', part.google],
+    ] as const) {
+      const label = getSiteLabel(part, engine);
+      if (result?.unchangedUrls?.length) {
+        notes.push(`${label}: skipped ${result.unchangedUrls.length} unchanged URL(s).`);
+      }
+      if (result?.removedUrls?.length) {
+        notes.push(`${label}: notified ${result.removedUrls.length} removed URL(s).`);
+      }
+      if (result?.routingDecisions?.length) {
+        notes.push(`${label}: applied redirects and rewrites to ${result.routingDecisions.length} route(s).`);
+      }
+      if (result?.excludedUrls?.length) {
+        notes.push(`${label}: excluded ${result.excludedUrls.length} noindex or canonicalized URL(s).`);
+      }
+      if (result?.disallowedUrls?.length) {
+        notes.push(`${label}: skipped ${result.disallowedUrls.length} URL(s) disallowed by robots.txt.`);
+      }
+    }
+    if (part.google?.queuedUrls?.length) {
+      notes.push(`${getSiteLabel(part, 'google')}: queued ${part.google.queuedUrls.length} URL(s) for the next run.`);
+    }
+    for (const skipped of part.skipped) {
+      notes.push(`${getSiteLabel(part, skipped.engine)}: skipped (${skipped.reason}).`);
+    }
+  }
+  if (notes.length) {
+    lines.push('', ...notes.map((note) => `- ${note}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function formatJunit(report: SubmissionReport): string {
+  const summary = summarizeReport(report);
+  // Multi-site reports get one suite per site and engine.
+  const suites = getReportParts(report).flatMap((part) => {
+    const outcomes = getPartOutcomes(part);
+    return (['indexnow', 'google'] as const).map((engine) => {
+      const cases = outcomes.filter((outcome) => outcome.engine === engine);
+      const skipped = part.skipped.filter((entry) => entry.engine === engine);
+      return formatJunitSuite(part, engine, cases, skipped);
+    });
+  });
+  const tests = summary.total + getReportSkipped(report).length;
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="nextjs-indexing-pack" tests="${tests}" failures="${summary.failed}">\n` +
+    suites.join('') +
+    '</testsuites>\n'
+  );
+}
+
+function formatJunitSuite(
+  part: ReportPart,
+  engine: SubmissionEngine,
+  cases: ReportOutcome[],
+  skipped: ReportPart['skipped'],
+): string {
+  const classname = part.site === undefined ? engine : `${part.site}.${engine}`;
+  const failures = cases.filter((outcome) => !outcome.ok).length;
+  const tests = cases.length + skipped.length;
+  let xml =
+    `  <testsuite name="${escapeXml(getSiteLabel(part, engine))}" tests="${tests}" failures="${failures}"` +
+    ` skipped="${skipped.length}">\n`;
+  for (const outcome of cases) {
+    xml += `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(outcome.target)}"`;
+    if (outcome.ok) {
+      xml += ' />\n';
+    } else {
+      const message = outcome.status ? `status ${outcome.status}` : 'request failed';
+      xml += `>\n      <failure message="${escapeXml(message)}">${escapeXml(outcome.message ?? '')}</failure>\n`;
+      xml += '    </testcase>\n';
+    }
+  }
+  for (const entry of skipped) {
+    xml += `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(ENGINE_LABELS[engine])}">\n`;
+    xml += `      <skipped message="${escapeXml(entry.reason)}" />\n    </testcase>\n`;
+  }
+  return `${xml}  </testsuite>\n`;
+}
+
+/**
+ * Renders a submission report for CI: `json` and `ndjson` for scripts, `markdown` for pull request comments and
+ * `junit` for test report viewers.
+ */
+export function formatReport(report: SubmissionReport, format: Exclude<ReportFormat, 'text'>): string {
+  switch (format) {
+    case 'json':
+      return formatJson(report);
+    case 'ndjson':
+      return formatNdjson(report);
+    case 'markdown':
+      return formatMarkdown(report);
+    case 'junit':
+      return formatJunit(report);
+    default:
+      throw new Error(`Unsupported report format: ${format}`);
+  }
+}
@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { fetchWithRetry, parseRetryAfter } from './retry';
+
+function mockFetch(t: { after: (fn: () => void) => void }, responses: Array<Response | Error>): { calls: number } {
+  const state = { calls: 0 };
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const next = responses[Math.min(state.calls, responses.length - 1)];
+    state.calls += 1;
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+  return state;
+}
+
+test('fetchWithRetry retries network errors and retryable statuses', async (t) => {
+  const state = mockFetch(t, [new Error('socket hang up'), new Response('', { status: 503 }), new Response('ok')]);
+
+  const result = await fetchWithRetry('https://example.com', {}, { initialDelayMs: 1, jitter: false });
+
+  assert.equal(state.calls, 3);
+  assert.equal(result.attempts, 3);
+  assert.equal(result.response?.status, 200);
+});
+
+test('fetchWithRetry stops at maxAttempts and does not retry client errors', async (t) => {
+  mockFetch(t, [new Response('', { status: 500 }), new Response('', { status: 500 })]);
+  const exhausted = await fetchWithRetry('https://example.com', {}, { maxAttempts: 2, initialDelayMs: 1 });
+  assert.equal(exhausted.attempts, 2);
+  assert.equal(exhausted.response?.status, 500);
+
+  const badRequest = mockFetch(t, [new Response('', { status: 400 })]);
+  const result = await fetchWithRetry('https://example.com', {}, { initialDelayMs: 1 });
+  assert.equal(badRequest.calls, 1);
+  assert.equal(result.attempts, 1);
+});
+
+test('fetchWithRetry gives up when Retry-After exceeds maxDelayMs', async (t) => {
+  const state = mockFetch(t, [new Response('', { status: 429, headers: { 'Retry-After': '120' } })]);
+
+  const result = await fetchWithRetry('https://example.com', {}, { initialDelayMs: 1, maxDelayMs: 1000 });
+
+  assert.equal(state.calls, 1);
+  assert.equal(result.response?.status, 429);
+});
+
+test('parseRetryAfter accepts seconds and HTTP dates', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  assert.equal(parseRetryAfter('5', now), 5000);
+  assert.equal(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now), 10_000);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+});
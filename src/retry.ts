@@ -0,0 +1,127 @@
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first request. Defaults to 3; use 1 to disable retries.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 1000.
+   */
+  initialDelayMs?: number;
+  /**
+   * Multiplier applied to the delay after every retry. Defaults to 2.
+   */
+  backoffFactor?: number;
+  /**
+   * Upper bound for a single delay in milliseconds. Defaults to 30000. When a `Retry-After` header asks
+   * for a longer wait, the request is not retried.
+   */
+  maxDelayMs?: number;
+  /**
+   * When true (default), each delay is randomized between half and the full computed delay so that
+   * concurrent clients do not retry in lockstep.
+   */
+  jitter?: boolean;
+  /**
+   * When true (default), the `Retry-After` header of 429 and 503 responses replaces the computed delay.
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * HTTP status codes that are retried. Defaults to 429 and every 5xx status.
+   */
+  retryOn?: number[];
+}
+
+export interface RetryResult {
+  /** Final response, unless every attempt failed before a response was received */
+  response?: Response;
+  /** Error thrown by the final attempt, when no response was received */
+  error?: Error;
+  /** Number of requests that were sent */
+  attempts: number;
+}
+
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'retryOn'>> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  maxDelayMs: 30_000,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+function shouldRetryStatus(status: number, retryOn?: number[]): boolean {
+  if (retryOn) {
+    return retryOn.includes(status);
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends a request with `fetch`, retrying network errors and retryable statuses with exponential backoff.
+ * Pass `false` as the policy to send a single request.
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit,
+  policy: RetryPolicy | false = {},
+): Promise<RetryResult> {
+  const settings = policy === false ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 } : { ...DEFAULT_RETRY_POLICY, ...policy };
+  const maxAttempts = Math.max(1, Math.floor(settings.maxAttempts));
+  const retryOn = policy === false ? undefined : policy.retryOn;
+
+  let delay = settings.initialDelayMs;
+  for (let attempt = 1; ; attempt += 1) {
+    let response: Response | undefined;
+    let error: Error | undefined;
+    try {
+      response = await fetch(input, init);
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError : new Error(String(fetchError));
+    }
+
+    const retryable = error !== undefined || (response !== undefined && shouldRetryStatus(response.status, retryOn));
+    if (!retryable || attempt >= maxAttempts) {
+      return { response, error, attempts: attempt };
+    }
+
+    let wait = Math.min(delay, settings.maxDelayMs);
+    if (settings.jitter) {
+      wait = wait / 2 + Math.random() * (wait / 2);
+    }
+    if (response && settings.respectRetryAfter) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== undefined) {
+        if (retryAfter > settings.maxDelayMs) {
+          return { response, attempts: attempt };
+        }
+        wait = retryAfter;
+      }
+    }
+    // Drain the body so the connection can be reused for the next attempt.
+    await response?.arrayBuffer().catch(() => undefined);
+    await sleep(wait);
+    delay *= settings.backoffFactor;
+  }
+}
@@ -0,0 +1,101 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { createRobotsTxtFilter, isAllowedByRobotsTxt, parseRobotsTxt } from './robots-txt';
+import { submitToIndexNow } from './indexnow';
+
+const ROBOTS_TXT = `
+# Everyone
+User-agent: *
+Disallow: /admin
+Disallow: /search?
+Allow: /admin/help
+
+User-agent: Googlebot
+User-agent: Bingbot
+Disallow: /*.pdf$
+Disallow: /beta/
+Sitemap: https://example.com/sitemap.xml
+`;
+
+test('isAllowedByRobotsTxt applies the most specific group and the longest matching rule', () => {
+  const groups = parseRobotsTxt(ROBOTS_TXT);
+  assert.deepEqual(
+    groups.map((group) => group.userAgents),
+    [['*'], ['googlebot', 'bingbot']],
+  );
+
+  assert.equal(isAllowedByRobotsTxt(groups, 'YandexBot', 'https://example.com/admin/users'), false);
+  assert.equal(isAllowedByRobotsTxt(groups, 'YandexBot', 'https://example.com/admin/help'), true);
+  assert.equal(isAllowedByRobotsTxt(groups, 'YandexBot', 'https://example.com/search?q=next'), false);
+  assert.equal(isAllowedByRobotsTxt(groups, 'YandexBot', 'https://example.com/search'), true);
+  // Googlebot only follows its own group, which does not mention /admin.
+  assert.equal(isAllowedByRobotsTxt(groups, 'Googlebot', 'https://example.com/admin/users'), true);
+  assert.equal(isAllowedByRobotsTxt(groups, 'Googlebot', 'https://example.com/files/guide.pdf'), false);
+  assert.equal(isAllowedByRobotsTxt(groups, 'Googlebot', 'https://example.com/files/guide.pdf?v=2'), true);
+  assert.equal(isAllowedByRobotsTxt(groups, 'Googlebot', 'https://example.com/beta/feature'), false);
+});
+
+test('createRobotsTxtFilter reads public/robots.txt next to the build directory', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-robots-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const nextBuildDir = path.join(dir, '.next');
+
+  assert.equal(await createRobotsTxtFilter('google', { nextBuildDir }), undefined);
+
+  await fs.mkdir(path.join(dir, 'public'));
+  await fs.writeFile(path.join(dir, 'public', 'robots.txt'), 'User-agent: *\nDisallow: /private\n');
+  const filter = await createRobotsTxtFilter('google', { nextBuildDir });
+  assert.ok(filter);
+  assert.equal(filter('https://example.com/private/page'), false);
+  assert.equal(filter('https://example.com/blog'), true);
+});
+
+test('submitToIndexNow leaves out URLs disallowed by robots.txt', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-robots-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const robotsTxt = path.join(dir, 'robots.txt');
+  await fs.writeFile(robotsTxt, 'User-agent: *\nDisallow: /search\n');
+
+  const result = await submitToIndexNow({
+    baseUrl: 'https://example.com',
+    key: 'test-key',
+    robotsTxt,
+    dryRun: true,
+    urls: ['https://example.com/blog', 'https://example.com/search?q=a'],
+  });
+  assert.deepEqual(result.urls, ['https://example.com/blog']);
+  assert.deepEqual(result.disallowedUrls, ['https://example.com/search?q=a']);
+
+  const unfiltered = await submitToIndexNow({
+    baseUrl: 'https://example.com',
+    key: 'test-key',
+    robotsTxt,
+    respectRobotsTxt: false,
+    dryRun: true,
+    urls: ['https://example.com/search?q=a'],
+  });
+  assert.deepEqual(unfiltered.urls, ['https://example.com/search?q=a']);
+});
+
+test('createRobotsTxtFilter only resolves the build directory when no other robots.txt is available', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-robots-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.mkdir(path.join(dir, 'out'));
+  await fs.writeFile(path.join(dir, 'out', 'robots.txt'), 'User-agent: *\nDisallow: /search\n');
+  let resolved = 0;
+  const nextBuildDir = async () => {
+    resolved += 1;
+    return path.join(dir, 'other-app', '.next');
+  };
+
+  const filter = await createRobotsTxtFilter('google', { nextBuildDir, exportDir: path.join(dir, 'out') });
+  assert.equal(filter?.('https://example.com/search'), false);
+  assert.equal(resolved, 0);
+
+  assert.equal(await createRobotsTxtFilter('google', { nextBuildDir, exportDir: path.join(dir, 'missing') }), undefined);
+  assert.equal(resolved, 1);
+});
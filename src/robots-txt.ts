@@ -0,0 +1,170 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { SubmissionEngine } from './state';
+
+/**
+ * Crawlers whose robots.txt rules decide whether a URL is submitted. A URL is only left out when every crawler of
+ * the engine is disallowed from fetching it, because an IndexNow ping is shared with all participating engines.
+ */
+export const ROBOTS_USER_AGENTS: Record<SubmissionEngine, string[]> = {
+  google: ['Googlebot'],
+  indexnow: ['Bingbot', 'YandexBot', 'Yeti', 'SeznamBot'],
+};
+
+export interface RobotsTxtRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsTxtGroup {
+  /** Lowercased product tokens from the `User-agent` lines of the group */
+  userAgents: string[];
+  rules: RobotsTxtRule[];
+}
+
+export interface RobotsTxtFilterOptions {
+  /**
+   * Location of the Next.js build output, or a function that resolves it. The function is only called when there is
+   * no `robotsTxt` and no `robots.txt` in `exportDir`. Defaults to `.next`.
+   */
+  nextBuildDir?: string | (() => Promise<string>);
+  /** Static export directory whose `robots.txt` is preferred over the other defaults. */
+  exportDir?: string;
+  /**
+   * Path to the robots.txt file to apply. Defaults to the prerendered `app/robots.ts` output, `out/robots.txt`
+   * or `public/robots.txt` next to the build directory, whichever exists first.
+   */
+  robotsTxt?: string;
+}
+
+/**
+ * Parses robots.txt into its user agent groups. Consecutive `User-agent` lines share the rules that follow them.
+ */
+export function parseRobotsTxt(contents: string): RobotsTxtGroup[] {
+  const groups: RobotsTxtGroup[] = [];
+  let current: RobotsTxtGroup | undefined;
+  let collectingAgents = false;
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      collectingAgents = false;
+      // An empty `Disallow:` allows everything and is equivalent to having no rule.
+      if (value) {
+        current.rules.push({ allow: field === 'allow', path: value });
+      }
+    } else if (current) {
+      collectingAgents = false;
+    }
+  }
+  return groups;
+}
+
+function compileRulePath(rulePath: string): RegExp {
+  const anchored = rulePath.endsWith('$');
+  const source = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+function getRulesFor(groups: RobotsTxtGroup[], userAgent: string): RobotsTxtRule[] {
+  const agent = userAgent.toLowerCase();
+  const matching = groups.filter((group) => group.userAgents.includes(agent));
+  const selected = matching.length ? matching : groups.filter((group) => group.userAgents.includes('*'));
+  return selected.flatMap((group) => group.rules);
+}
+
+/**
+ * Evaluates the rules for `userAgent` against the path and query of `url`. The longest matching rule wins and
+ * `Allow` wins a tie, as in RFC 9309.
+ */
+export function isAllowedByRobotsTxt(groups: RobotsTxtGroup[], userAgent: string, url: string): boolean {
+  const parsed = new URL(url);
+  const target = `${parsed.pathname}${parsed.search}`;
+  let winner: RobotsTxtRule | undefined;
+  for (const rule of getRulesFor(groups, userAgent)) {
+    if (!compileRulePath(rule.path).test(target)) continue;
+    if (
+      !winner ||
+      rule.path.length > winner.path.length ||
+      (rule.path.length === winner.path.length && rule.allow)
+    ) {
+      winner = rule;
+    }
+  }
+  return winner?.allow ?? true;
+}
+
+async function readFileIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'EISDIR') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the robots.txt served by the site from the build output, or resolves with undefined when there is none.
+ */
+export async function readRobotsTxt(options: RobotsTxtFilterOptions = {}): Promise<string | undefined> {
+  if (options.robotsTxt) {
+    const contents = await readFileIfExists(path.resolve(options.robotsTxt));
+    if (contents === undefined) {
+      throw new Error(`robots.txt not found at ${path.resolve(options.robotsTxt)}`);
+    }
+    return contents;
+  }
+  if (options.exportDir) {
+    const contents = await readFileIfExists(path.join(path.resolve(options.exportDir), 'robots.txt'));
+    if (contents !== undefined) {
+      return contents;
+    }
+  }
+  const nextBuildDir =
+    typeof options.nextBuildDir === 'function' ? await options.nextBuildDir() : options.nextBuildDir;
+  const resolvedBuildDir = path.resolve(nextBuildDir ?? '.next');
+  const candidates = [
+    // `app/robots.ts` is prerendered as a route handler body unless it is dynamic.
+    path.join(resolvedBuildDir, 'server', 'app', 'robots.txt.body'),
+    path.join(resolvedBuildDir, '..', 'out', 'robots.txt'),
+    path.join(resolvedBuildDir, '..', 'public', 'robots.txt'),
+  ];
+  for (const candidate of candidates) {
+    const contents = await readFileIfExists(candidate);
+    if (contents !== undefined) {
+      return contents;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates a filter that rejects URLs the site's robots.txt disallows for every crawler of `engine`. Resolves with
+ * undefined when the site has no robots.txt.
+ */
+export async function createRobotsTxtFilter(
+  engine: SubmissionEngine,
+  options: RobotsTxtFilterOptions = {},
+): Promise<((url: string) => boolean) | undefined> {
+  const contents = await readRobotsTxt(options);
+  if (contents === undefined) {
+    return undefined;
+  }
+  const groups = parseRobotsTxt(contents);
+  return (url: string) => ROBOTS_USER_AGENTS[engine].some((userAgent) => isAllowedByRobotsTxt(groups, userAgent, url));
+}
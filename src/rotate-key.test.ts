@@ -0,0 +1,87 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { runRotateKey } from './rotate-key';
+
+test('runRotateKey keeps the old key file and replaces INDEXNOW_KEY in .env.local', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.mkdir(path.join(dir, 'public'));
+  await fs.writeFile(path.join(dir, 'public', 'old-key-1234.txt'), 'old-key-1234');
+  await fs.writeFile(path.join(dir, '.env.local'), 'OTHER=1\nINDEXNOW_KEY=old-key-1234\n');
+  await fs.writeFile(path.join(dir, 'nextjs-indexing-pack.config.json'), '{"baseUrl":"https://example.com"}');
+
+  const originalCwd = process.cwd();
+  const originalKey = process.env.INDEXNOW_KEY;
+  const originalLog = console.log;
+  process.chdir(dir);
+  delete process.env.INDEXNOW_KEY;
+  console.log = () => {};
+  t.after(() => {
+    process.chdir(originalCwd);
+    console.log = originalLog;
+    if (originalKey !== undefined) {
+      process.env.INDEXNOW_KEY = originalKey;
+    }
+  });
+
+  await runRotateKey();
+
+  const env = await fs.readFile(path.join(dir, '.env.local'), 'utf8');
+  const newKey = /^INDEXNOW_KEY=(\w+)$/m.exec(env)?.[1];
+  assert.ok(newKey);
+  assert.notEqual(newKey, 'old-key-1234');
+  assert.match(env, /^OTHER=1$/m);
+  assert.deepEqual((await fs.readdir(path.join(dir, 'public'))).sort(), [`${newKey}.txt`, 'old-key-1234.txt'].sort());
+  assert.deepEqual(JSON.parse(await fs.readFile(path.join(dir, 'nextjs-indexing-pack.config.json'), 'utf8')), {
+    baseUrl: 'https://example.com',
+    previousIndexNowKey: 'old-key-1234',
+  });
+});
+
+test('runRotateKey replaces the previous key in indexNow.key of the config and its sites', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.mkdir(path.join(dir, 'public'));
+  await fs.writeFile(
+    path.join(dir, 'nextjs-indexing-pack.config.json'),
+    JSON.stringify({
+      baseUrl: 'https://example.com',
+      indexNow: { key: 'old-key-1234' },
+      sites: [
+        { name: 'docs', baseUrl: 'https://docs.example.com', indexNow: { key: 'old-key-1234' } },
+        { name: 'blog', baseUrl: 'https://blog.example.com', indexNow: { key: 'blog-key-5678' } },
+      ],
+    }),
+  );
+
+  const originalCwd = process.cwd();
+  const originalKey = process.env.INDEXNOW_KEY;
+  const originalLog = console.log;
+  process.chdir(dir);
+  delete process.env.INDEXNOW_KEY;
+  console.log = () => {};
+  t.after(() => {
+    process.chdir(originalCwd);
+    console.log = originalLog;
+    if (originalKey !== undefined) {
+      process.env.INDEXNOW_KEY = originalKey;
+    }
+  });
+
+  await runRotateKey();
+
+  const env = await fs.readFile(path.join(dir, '.env.local'), 'utf8');
+  const newKey = /^INDEXNOW_KEY=(\w+)$/m.exec(env)?.[1];
+  assert.ok(newKey);
+  const config = JSON.parse(await fs.readFile(path.join(dir, 'nextjs-indexing-pack.config.json'), 'utf8'));
+  assert.equal(config.previousIndexNowKey, 'old-key-1234');
+  assert.equal(config.indexNow.key, newKey);
+  assert.deepEqual(
+    config.sites.map((site: { indexNow: { key: string } }) => site.indexNow.key),
+    [newKey, 'blog-key-5678'],
+  );
+});
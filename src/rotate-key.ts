@@ -0,0 +1,144 @@
+import path from 'node:path';
+import { findConfigPath, getConfigPath, loadConfig, updateConfig } from './config';
+import type { NextjsIndexingPackConfig } from './config';
+import { generateIndexNowKey, pathExists, readEnvLocalEntry, setEnvLocalEntry, writeKeyFile } from './init';
+
+export interface RotateKeyOptions {
+  /**
+   * Key that is being replaced. Defaults to `INDEXNOW_KEY` from the environment or `.env.local`.
+   */
+  currentKey?: string;
+  /**
+   * Directory that holds the key files. Defaults to `public`.
+   */
+  publicDir?: string;
+  /**
+   * Config file to read and update. Defaults to the config file in the current directory.
+   */
+  configPath?: string;
+}
+
+/**
+ * Returns the `indexNow` and `sites` fields with every `indexNow.key` that holds `previousKey` replaced by `key`.
+ * Resolves with undefined when the config does not store the previous key.
+ */
+function replaceConfigKeys(
+  config: NextjsIndexingPackConfig,
+  previousKey: string,
+  key: string,
+): Partial<NextjsIndexingPackConfig> | undefined {
+  const changes: Partial<NextjsIndexingPackConfig> = {};
+  if (config.indexNow?.key === previousKey) {
+    changes.indexNow = { ...config.indexNow, key };
+  }
+  if (config.sites?.some((site) => site.indexNow?.key === previousKey)) {
+    changes.sites = config.sites.map((site) =>
+      site.indexNow?.key === previousKey ? { ...site, indexNow: { ...site.indexNow, key } } : site,
+    );
+  }
+  return Object.keys(changes).length ? changes : undefined;
+}
+
+/**
+ * Generates a new IndexNow key and writes its key file next to the current one, so both keys are valid while
+ * the new key is deployed. `.env.local` and the config file, including the `indexNow.key` fields that hold the
+ * previous key, are updated, and the steps to retire the old key are printed.
+ */
+export async function runRotateKey(options: RotateKeyOptions = {}): Promise<void> {
+  const config = await loadConfig(options.configPath);
+  const configPath = findConfigPath(options.configPath) ?? getConfigPath();
+  const configName = path.basename(configPath);
+  const publicDir = path.resolve(options.publicDir ?? 'public');
+  const previousKey =
+    options.currentKey ??
+    process.env.INDEXNOW_KEY ??
+    (await readEnvLocalEntry('INDEXNOW_KEY')) ??
+    config?.indexNow?.key;
+
+  if (config?.previousIndexNowKey && config.previousIndexNowKey !== previousKey) {
+    console.warn(
+      `The previous rotation (from ${config.previousIndexNowKey}) is still recorded in ${configName}. ` +
+        'Make sure its key file was removed before retiring another key.',
+    );
+  }
+
+  const key = generateIndexNowKey();
+  const previousKeyFilePath = previousKey ? path.join(publicDir, `${previousKey}.txt`) : undefined;
+  const previousKeyFileExists = previousKeyFilePath ? await pathExists(previousKeyFilePath) : false;
+
+  // Projects that serve the key from a route handler have no key file; the route reads INDEXNOW_KEY and
+  // INDEXNOW_PREVIOUS_KEY on every request.
+  let keyFilePath: string | undefined;
+  if (previousKeyFileExists || !previousKey) {
+    keyFilePath = await writeKeyFile(publicDir, key);
+  }
+  const envStatus = await setEnvLocalEntry('INDEXNOW_KEY', key);
+  // The CLI prefers `indexNow.key` from the config over INDEXNOW_KEY, so a stale key there has to be replaced too.
+  const keyChanges = config && previousKey ? replaceConfigKeys(config, previousKey, key) : undefined;
+  // Executable config files cannot be rewritten, so the previous key has to be recorded by hand.
+  let configStatus: 'created' | 'updated' | undefined;
+  let configError: string | undefined;
+  if (path.extname(configPath) === '.json') {
+    try {
+      configStatus = await updateConfig({ previousIndexNowKey: previousKey, ...keyChanges }, configPath);
+    } catch (error: any) {
+      configError = error?.message ?? String(error);
+    }
+  }
+
+  console.log('🔑 Rotated the IndexNow key.');
+  console.log(`• New IndexNow key: ${key}`);
+  if (previousKey) {
+    console.log(`• Previous IndexNow key: ${previousKey}`);
+  }
+  if (keyFilePath) {
+    console.log(`• Key file created at: ${path.relative(process.cwd(), keyFilePath)}`);
+  }
+  if (previousKeyFilePath && previousKeyFileExists) {
+    console.log(`• Kept the previous key file at: ${path.relative(process.cwd(), previousKeyFilePath)}`);
+  }
+  console.log(
+    envStatus === 'replaced' ? '• Replaced INDEXNOW_KEY in .env.local.' : '• Added INDEXNOW_KEY to .env.local.',
+  );
+  if (keyChanges && configStatus) {
+    console.log(`• Replaced indexNow.key in ${configName} with the new key.`);
+  }
+  if (previousKey && configStatus) {
+    console.log(`• ${configStatus === 'created' ? 'Created' : 'Updated'} ${configName} with the previous key.`);
+  } else if (previousKey) {
+    console.log(`• Add previousIndexNowKey: '${previousKey}' to ${configName} to keep track of the rotation.`);
+  }
+  if (configError) {
+    console.warn(`Unable to update ${configName}: ${configError}`);
+  }
+  if (keyChanges && !configStatus) {
+    console.warn(
+      `${configName} still sets indexNow.key to the previous key. Replace it with ${key} by hand, ` +
+        'otherwise submit and verify keep using the previous key.',
+    );
+  }
+
+  console.log('\nNext steps:');
+  let step = 1;
+  const servedByRoute = Boolean(previousKey) && !previousKeyFileExists;
+  if (servedByRoute) {
+    console.log(
+      `${step}. Set INDEXNOW_KEY=${key} and INDEXNOW_PREVIOUS_KEY=${previousKey} in your CI/deployment environment ` +
+        'and redeploy, so the key route serves both keys.',
+    );
+  } else {
+    console.log(`${step}. Set INDEXNOW_KEY=${key} in your CI/deployment environment and deploy.`);
+  }
+  step += 1;
+  console.log(`${step}. Run "npx nextjs-indexing-pack verify" to confirm the new key is served.`);
+  step += 1;
+  if (previousKey && previousKeyFilePath && previousKeyFileExists) {
+    console.log(
+      `${step}. Once verified, delete ${path.relative(process.cwd(), previousKeyFilePath)}, remove "previousIndexNowKey" from ${configName} and deploy again.`,
+    );
+  } else if (previousKey) {
+    console.log(
+      `${step}. Once verified, remove INDEXNOW_PREVIOUS_KEY from your environment and "previousIndexNowKey" from ${configName}, and deploy again.`,
+    );
+  }
+}
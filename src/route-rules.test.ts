@@ -0,0 +1,137 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { applyRoutingRules } from './route-rules';
+import { collectIndexableRoutes, submitToIndexNow } from './indexnow';
+
+const ROUTES_MANIFEST = {
+  staticRoutes: ['/', '/old-pricing', '/pricing', '/promo', '/beta', '/twitter'].map((page) => ({ page })),
+  redirects: [
+    {
+      source: '/:path+/',
+      destination: '/:path+',
+      internal: true,
+      statusCode: 308,
+      regex: '^(?:/((?:[^/]+?)(?:/(?:[^/]+?))*))/$',
+    },
+    { source: '/old-pricing', destination: '/pricing', statusCode: 308, regex: '^(?!/_next)/old-pricing(?:/)?$' },
+    {
+      source: '/blog/:slug',
+      destination: '/articles/:slug',
+      statusCode: 301,
+      regex: '^(?!/_next)/blog(?:/([^/]+?))(?:/)?$',
+    },
+    { source: '/promo', destination: '/sale', statusCode: 307, regex: '^(?!/_next)/promo(?:/)?$' },
+    {
+      source: '/beta',
+      destination: '/',
+      statusCode: 308,
+      regex: '^(?!/_next)/beta(?:/)?$',
+      has: [{ type: 'cookie', key: 'beta' }],
+    },
+    { source: '/twitter', destination: 'https://x.com/example', statusCode: 308, regex: '^(?!/_next)/twitter(?:/)?$' },
+  ],
+  rewrites: {
+    beforeFiles: [],
+    afterFiles: [{ source: '/about', destination: '/content/about', regex: '^/about(?:/)?$' }],
+    fallback: [
+      {
+        source: '/docs/:path*',
+        destination: '/content/docs/:path*',
+        regex: '^/docs(?:/((?:[^/]+?)(?:/(?:[^/]+?))*))?(?:/)?$',
+      },
+    ],
+  },
+};
+
+async function createBuild(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-rules-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.writeFile(path.join(dir, 'routes-manifest.json'), JSON.stringify(ROUTES_MANIFEST));
+  await fs.writeFile(
+    path.join(dir, 'prerender-manifest.json'),
+    JSON.stringify({ routes: { '/blog/hello': {}, '/content/about': {} } }),
+  );
+  return dir;
+}
+
+test('applyRoutingRules skips permanent redirects, follows them on request and applies static rewrites', async (t) => {
+  const nextBuildDir = await createBuild(t);
+  const routes = await collectIndexableRoutes(nextBuildDir, { applyRoutingRules: false });
+
+  const result = await applyRoutingRules(routes, { nextBuildDir, followRedirects: true });
+  assert.deepEqual(result.routes, ['/', '/about', '/articles/hello', '/beta', '/pricing', '/promo']);
+  assert.deepEqual(result.decisions, [
+    {
+      route: '/blog/hello',
+      reason: 'permanent-redirect',
+      source: '/blog/:slug',
+      destination: '/articles/hello',
+      statusCode: 301,
+    },
+    {
+      route: '/articles/hello',
+      reason: 'redirect-destination',
+      source: '/blog/:slug',
+      destination: '/articles/hello',
+      statusCode: 301,
+    },
+    {
+      route: '/old-pricing',
+      reason: 'permanent-redirect',
+      source: '/old-pricing',
+      destination: '/pricing',
+      statusCode: 308,
+    },
+    {
+      route: '/twitter',
+      reason: 'permanent-redirect',
+      source: '/twitter',
+      destination: 'https://x.com/example',
+      statusCode: 308,
+    },
+    { route: '/about', reason: 'rewrite', source: '/about', destination: '/content/about', replaces: '/content/about' },
+  ]);
+
+  assert.deepEqual(await collectIndexableRoutes(nextBuildDir), ['/', '/about', '/beta', '/pricing', '/promo']);
+});
+
+test('submitToIndexNow reports the routing decisions of discovered routes', async (t) => {
+  const nextBuildDir = await createBuild(t);
+
+  const result = await submitToIndexNow({
+    baseUrl: 'https://example.com',
+    key: 'test-key',
+    nextBuildDir,
+    dryRun: true,
+  });
+  assert.deepEqual(result.urls, [
+    'https://example.com',
+    'https://example.com/about',
+    'https://example.com/beta',
+    'https://example.com/pricing',
+    'https://example.com/promo',
+  ]);
+  assert.deepEqual(
+    result.routingDecisions?.map((decision) => [decision.route, decision.reason]),
+    [
+      ['/blog/hello', 'permanent-redirect'],
+      ['/old-pricing', 'permanent-redirect'],
+      ['/twitter', 'permanent-redirect'],
+      ['/about', 'rewrite'],
+    ],
+  );
+
+  const unfiltered = await submitToIndexNow({
+    baseUrl: 'https://example.com',
+    key: 'test-key',
+    nextBuildDir,
+    applyRoutingRules: false,
+    dryRun: true,
+  });
+  assert.equal(unfiltered.urls.length, 8);
+  assert.equal(unfiltered.routingDecisions, undefined);
+});
@@ -0,0 +1,249 @@
+import path from 'node:path';
+import { readJsonIfExists, readRoutingConfig } from './routing';
+import type { NextRoutingConfig } from './routing';
+
+/**
+ * Why a redirect or rewrite changed the discovered routes: the route permanently redirects elsewhere, the route is
+ * the destination of such a redirect, or the route is the public source of a rewrite.
+ */
+export type RoutingDecisionReason = 'permanent-redirect' | 'redirect-destination' | 'rewrite';
+
+export interface RoutingDecision {
+  /** Route left out (`permanent-redirect`) or added (`redirect-destination` and `rewrite`) */
+  route: string;
+  reason: RoutingDecisionReason;
+  /** Source of the rule as recorded in `routes-manifest.json` */
+  source: string;
+  /** Destination of the rule, with the parameters of the matched route filled in */
+  destination: string;
+  /** HTTP status code of the redirect */
+  statusCode?: number;
+  /** Internal destination that the public source of a rewrite is submitted in place of */
+  replaces?: string;
+}
+
+export interface ApplyRoutingRulesOptions {
+  /** Location of the Next.js build output. Defaults to `.next`. */
+  nextBuildDir?: string;
+  /** Add the destination of each permanent redirect whose source was discovered. Defaults to false. */
+  followRedirects?: boolean;
+}
+
+export interface ApplyRoutingRulesResult {
+  routes: string[];
+  /** Every change made to the discovered routes, with the rule that caused it */
+  decisions: RoutingDecision[];
+}
+
+interface ManifestRule {
+  source: string;
+  destination: string;
+  regex?: string;
+  statusCode?: number;
+  permanent?: boolean;
+  internal?: boolean;
+  basePath?: false;
+  has?: unknown[];
+  missing?: unknown[];
+}
+
+interface RedirectMatch {
+  rule: ManifestRule;
+  /** Destination with the route parameters filled in */
+  destination: string;
+  /** Destination as a route, or undefined when it is another site or still has unresolved parameters */
+  destinationRoute?: string;
+}
+
+// Next.js prefixes the rules of i18n builds with this parameter, which matches any configured locale.
+const LOCALE_PARAMETER = /^\/:nextInternalLocale(?:\([^)]*\))?(?=\/|$)/;
+
+const PERMANENT_STATUS_CODES = new Set([301, 308]);
+
+function toRoute(value: string): string {
+  const pathname = value.replace(/[?#].*$/, '').replace(/\/{2,}/g, '/');
+  return pathname.length > 1 ? pathname.replace(/\/$/, '') : '/';
+}
+
+function stripBasePath(value: string, basePath: string): string {
+  if (!basePath || (value !== basePath && !value.startsWith(`${basePath}/`))) {
+    return value;
+  }
+  return value.slice(basePath.length) || '/';
+}
+
+function isConditional(rule: ManifestRule): boolean {
+  return Boolean(rule.has?.length || rule.missing?.length);
+}
+
+function isPermanentRedirect(rule: ManifestRule): boolean {
+  return rule.permanent === true || PERMANENT_STATUS_CODES.has(rule.statusCode ?? 0);
+}
+
+function readRules(value: unknown): ManifestRule[] {
+  const rules = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? Object.values(value).flatMap((group) => (Array.isArray(group) ? group : []))
+      : [];
+  return rules.filter(
+    (rule: any): rule is ManifestRule => typeof rule?.source === 'string' && typeof rule?.destination === 'string',
+  );
+}
+
+function fillParameters(destination: string, parameters: Map<string, string>): string {
+  return destination.replace(/:([A-Za-z_]\w*)[*+?]?/g, (match, name: string) => parameters.get(name) ?? match);
+}
+
+function matchRedirect(rule: ManifestRule, publicPath: string, routing: NextRoutingConfig): RedirectMatch | undefined {
+  if (!rule.regex) {
+    return undefined;
+  }
+  // Rules are compiled by path-to-regexp without case sensitivity.
+  const match = new RegExp(rule.regex, 'i').exec(publicPath);
+  if (!match) {
+    return undefined;
+  }
+  const names = Array.from(rule.source.matchAll(/:([A-Za-z_]\w*)/g), (token) => token[1]);
+  const parameters = new Map<string, string>();
+  names.forEach((name, index) => parameters.set(name, match[index + 1] ?? ''));
+  const destination = fillParameters(rule.destination, parameters);
+  if (!destination.startsWith('/') || /:[A-Za-z_]/.test(destination)) {
+    return { rule, destination };
+  }
+  const withoutBasePath = rule.basePath === false ? destination : stripBasePath(destination, routing.basePath);
+  return { rule, destination, destinationRoute: toRoute(withoutBasePath) };
+}
+
+/**
+ * Returns the paths a request for `route` can arrive with: below `basePath`, and for i18n builds also with the
+ * default locale prefix that Next.js adds before matching localized rules.
+ */
+function getPublicPaths(route: string, routing: NextRoutingConfig): string[] {
+  const withBasePath = (value: string) =>
+    routing.basePath ? `${routing.basePath}${value === '/' ? '' : value}` : value;
+  const paths = [withBasePath(route)];
+  const i18n = routing.i18n;
+  if (i18n && !i18n.locales.includes(route.split('/')[1])) {
+    paths.push(withBasePath(`/${i18n.defaultLocale}${route === '/' ? '' : route}`));
+  }
+  return paths;
+}
+
+function findPermanentRedirect(
+  route: string,
+  redirects: ManifestRule[],
+  routing: NextRoutingConfig,
+): RedirectMatch | undefined {
+  for (const rule of redirects) {
+    for (const publicPath of getPublicPaths(route, routing)) {
+      const candidate = rule.basePath === false ? route : publicPath;
+      const match = matchRedirect(rule, candidate, routing);
+      if (match) {
+        return match;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits a route into its locale prefix and the path below it, so that localized rules can be matched once per
+ * locale.
+ */
+function splitLocale(route: string, routing: NextRoutingConfig): { prefix: string; path: string } {
+  const [, first, ...rest] = route.split('/');
+  if (routing.i18n?.locales.includes(first)) {
+    return { prefix: `/${first}`, path: rest.length ? `/${rest.join('/')}` : '/' };
+  }
+  return { prefix: '', path: route };
+}
+
+function withPrefix(prefix: string, route: string): string {
+  return route === '/' ? prefix || '/' : `${prefix}${route}`;
+}
+
+/**
+ * Applies the redirects and rewrites of `routes-manifest.json` to the discovered routes. Routes that permanently
+ * redirect (301 or 308) are left out, and with `followRedirects` their destination on the same site is added.
+ * Static rewrites whose internal destination was discovered are submitted under their public source instead.
+ * Conditional rules (`has` and `missing`), temporary redirects and rewrites with parameters are ignored because
+ * they cannot be evaluated from the build output.
+ */
+export async function applyRoutingRules(
+  routes: string[],
+  options: ApplyRoutingRulesOptions = {},
+): Promise<ApplyRoutingRulesResult> {
+  const resolvedDir = path.resolve(options.nextBuildDir ?? '.next');
+  const routesManifest = await readJsonIfExists<any>(path.join(resolvedDir, 'routes-manifest.json'));
+  const routing = await readRoutingConfig(resolvedDir);
+  const redirects = readRules(routesManifest?.redirects).filter(
+    (rule) => !rule.internal && !isConditional(rule) && isPermanentRedirect(rule),
+  );
+  const rewrites = readRules(routesManifest?.rewrites).filter((rule) => !rule.internal && !isConditional(rule));
+
+  const decisions: RoutingDecision[] = [];
+  const kept = new Set<string>();
+  const added: string[] = [];
+  for (const route of routes) {
+    const redirect = findPermanentRedirect(route, redirects, routing);
+    if (!redirect) {
+      kept.add(route);
+      continue;
+    }
+    decisions.push({
+      route,
+      reason: 'permanent-redirect',
+      source: redirect.rule.source,
+      destination: redirect.destination,
+      statusCode: redirect.rule.statusCode ?? 308,
+    });
+    const target = redirect.destinationRoute;
+    if (!options.followRedirects || !target || routes.includes(target) || added.includes(target)) continue;
+    // A destination that redirects again is not a page either.
+    if (findPermanentRedirect(target, redirects, routing)) continue;
+    added.push(target);
+    decisions.push({
+      route: target,
+      reason: 'redirect-destination',
+      source: redirect.rule.source,
+      destination: redirect.destination,
+      statusCode: redirect.rule.statusCode ?? 308,
+    });
+  }
+  for (const route of added) {
+    kept.add(route);
+  }
+
+  const replaced = new Set<string>();
+  for (const rule of rewrites) {
+    const localized = LOCALE_PARAMETER.test(rule.source);
+    const basePath = rule.basePath === false ? '' : routing.basePath;
+    const stripRule = (value: string) => toRoute(stripBasePath(value, basePath).replace(LOCALE_PARAMETER, '') || '/');
+    if (!rule.destination.startsWith('/')) continue;
+    const source = stripRule(rule.source);
+    const destination = stripRule(rule.destination);
+    // Only rules that map one public path to one internal path can be evaluated.
+    if (/[:()*]/.test(source) || /[:()*]/.test(destination) || source === destination) continue;
+
+    for (const route of Array.from(kept)) {
+      const { prefix, path: localePath } = localized ? splitLocale(route, routing) : { prefix: '', path: route };
+      if (localePath !== destination) continue;
+      const publicRoute = withPrefix(prefix, source);
+      replaced.add(route);
+      if (kept.has(publicRoute)) continue;
+      kept.add(publicRoute);
+      decisions.push({
+        route: publicRoute,
+        reason: 'rewrite',
+        source: rule.source,
+        destination: rule.destination,
+        replaces: route,
+      });
+    }
+  }
+
+  const result = Array.from(kept).filter((route) => !replaced.has(route));
+  result.sort((a, b) => (a === '/' ? -1 : b === '/' ? 1 : a.localeCompare(b)));
+  return { routes: result, decisions };
+}
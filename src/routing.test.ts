@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { readRoutingConfig, toPublicUrls } from './routing';
+
+test('readRoutingConfig reads basePath and i18n and infers trailingSlash from internal redirects', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-routing-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.writeFile(
+    path.join(dir, 'routes-manifest.json'),
+    JSON.stringify({
+      basePath: '/docs',
+      i18n: { locales: ['en', 'fr'], defaultLocale: 'en' },
+      redirects: [
+        { source: '/docs/:file((?:[^/]+/)*[^/]+\\.\\w+)/', destination: '/docs/:file', internal: true },
+        { source: '/docs/:notfile((?:[^/]+/)*[^/\\.]+)', destination: '/docs/:notfile/', internal: true },
+      ],
+    }),
+  );
+
+  assert.deepEqual(await readRoutingConfig(dir), {
+    basePath: '/docs',
+    trailingSlash: true,
+    i18n: { locales: ['en', 'fr'], defaultLocale: 'en' },
+  });
+});
+
+test('toPublicUrls applies basePath and trailingSlash', () => {
+  const urls = toPublicUrls(['/', '/about'], 'https://example.com', { basePath: '/docs', trailingSlash: true });
+
+  assert.deepEqual(urls, [
+    { route: '/', url: 'https://example.com/docs/' },
+    { route: '/about', url: 'https://example.com/docs/about/' },
+  ]);
+});
+
+test('toPublicUrls maps locales to prefixes and locale domains', () => {
+  const urls = toPublicUrls(['/en', '/fr', '/de', '/en/about', '/fr/about', '/account'], 'https://example.com', {
+    basePath: '',
+    trailingSlash: false,
+    i18n: {
+      locales: ['en', 'fr', 'de'],
+      defaultLocale: 'en',
+      domains: [{ domain: 'example.fr', defaultLocale: 'fr' }],
+    },
+  });
+
+  assert.deepEqual(
+    urls.map((entry) => entry.url),
+    [
+      'https://example.com',
+      'https://example.fr',
+      'https://example.com/de',
+      'https://example.com/about',
+      'https://example.fr/about',
+      'https://example.com/account',
+      'https://example.fr/account',
+      'https://example.com/de/account',
+    ],
+  );
+  assert.equal(urls[4].route, '/fr/about');
+});
@@ -0,0 +1,169 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { RouteUrl } from './state';
+
+export interface NextI18nDomain {
+  domain: string;
+  defaultLocale: string;
+  locales?: string[];
+  http?: boolean;
+}
+
+export interface NextI18nConfig {
+  locales: string[];
+  defaultLocale: string;
+  domains?: NextI18nDomain[];
+}
+
+/**
+ * Routing settings of a Next.js build that affect the public URL of a route.
+ */
+export interface NextRoutingConfig {
+  basePath: string;
+  trailingSlash: boolean;
+  i18n?: NextI18nConfig;
+}
+
+export async function readJsonIfExists<T = unknown>(filePath: string): Promise<T | null> {
+  try {
+    const file = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(file) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function parseI18n(value: any): NextI18nConfig | undefined {
+  if (!value || !Array.isArray(value.locales) || typeof value.defaultLocale !== 'string') {
+    return undefined;
+  }
+  const domains: NextI18nDomain[] | undefined = Array.isArray(value.domains)
+    ? value.domains.filter((domain: any) => typeof domain?.domain === 'string' && typeof domain?.defaultLocale === 'string')
+    : undefined;
+  return {
+    locales: value.locales.filter((locale: unknown): locale is string => typeof locale === 'string'),
+    defaultLocale: value.defaultLocale,
+    ...(domains?.length ? { domains } : {}),
+  };
+}
+
+/**
+ * Next.js does not record `trailingSlash` in `routes-manifest.json`, but with `trailingSlash: true` it adds an
+ * internal redirect that appends the trailing slash, so the setting can be inferred from its destination.
+ */
+function inferTrailingSlash(routesManifest: any): boolean {
+  const redirects: any[] = Array.isArray(routesManifest?.redirects) ? routesManifest.redirects : [];
+  return redirects.some(
+    (redirect) => redirect?.internal && typeof redirect.destination === 'string' && redirect.destination.endsWith('/'),
+  );
+}
+
+/**
+ * Reads `basePath`, `trailingSlash` and `i18n` from `routes-manifest.json`, preferring the resolved Next.js
+ * config in `required-server-files.json` when the build produced one.
+ */
+export async function readRoutingConfig(nextBuildDir = '.next'): Promise<NextRoutingConfig> {
+  const resolvedDir = path.resolve(nextBuildDir);
+  const routesManifest = await readJsonIfExists<any>(path.join(resolvedDir, 'routes-manifest.json'));
+  const serverFiles = await readJsonIfExists<any>(path.join(resolvedDir, 'required-server-files.json'));
+  const nextConfig = serverFiles?.config;
+
+  const basePath = typeof nextConfig?.basePath === 'string' ? nextConfig.basePath : routesManifest?.basePath;
+  const trailingSlash =
+    typeof nextConfig?.trailingSlash === 'boolean' ? nextConfig.trailingSlash : inferTrailingSlash(routesManifest);
+  const i18n = parseI18n(nextConfig?.i18n ?? routesManifest?.i18n);
+
+  return {
+    basePath: typeof basePath === 'string' && basePath !== '/' ? basePath.replace(/\/$/, '') : '',
+    trailingSlash,
+    ...(i18n ? { i18n } : {}),
+  };
+}
+
+/**
+ * Prefixes a normalized base URL with `basePath` unless the base URL already ends with it.
+ */
+export function applyBasePath(normalizedBase: string, basePath: string): string {
+  if (!basePath || normalizedBase.endsWith(basePath)) {
+    return normalizedBase;
+  }
+  return `${normalizedBase}${basePath}`;
+}
+
+function joinUrl(base: string, route: string, trailingSlash: boolean): string {
+  const hasPath = new URL(base).pathname !== '/';
+  if (route === '/') {
+    return trailingSlash && hasPath ? `${base}/` : base;
+  }
+  return trailingSlash ? `${base}${route}/` : `${base}${route}`;
+}
+
+function splitLocale(route: string, locales: string[]): { locale?: string; path: string } {
+  const [, first, ...rest] = route.split('/');
+  if (first && locales.includes(first)) {
+    return { locale: first, path: rest.length ? `/${rest.join('/')}` : '/' };
+  }
+  return { path: route };
+}
+
+function localeBase(locale: string, normalizedBase: string, config: NextRoutingConfig): { base: string; prefix: string } {
+  const i18n = config.i18n as NextI18nConfig;
+  const domainBase = (domain: NextI18nDomain) =>
+    applyBasePath(`${domain.http ? 'http' : 'https'}://${domain.domain}`, config.basePath);
+
+  const ownDomain = i18n.domains?.find((domain) => domain.defaultLocale === locale);
+  if (ownDomain) {
+    return { base: domainBase(ownDomain), prefix: '' };
+  }
+  const sharedDomain = i18n.domains?.find((domain) => domain.locales?.includes(locale));
+  if (sharedDomain) {
+    return { base: domainBase(sharedDomain), prefix: `/${locale}` };
+  }
+  return {
+    base: applyBasePath(normalizedBase, config.basePath),
+    prefix: locale === i18n.defaultLocale ? '' : `/${locale}`,
+  };
+}
+
+/**
+ * Maps routes from the build output to their public URLs, applying `basePath`, `trailingSlash` and i18n
+ * locale prefixes or domains. The returned `route` is the path as it appears in the build output.
+ *
+ * With i18n enabled, routes that were prerendered per locale (e.g. `/fr/about`) keep exactly those locales,
+ * while routes without a locale prefix (e.g. server-rendered pages) are expanded to every locale.
+ */
+export function toPublicUrls(routes: string[], normalizedBase: string, config: NextRoutingConfig): RouteUrl[] {
+  const { i18n, trailingSlash } = config;
+  if (!i18n) {
+    const base = applyBasePath(normalizedBase, config.basePath);
+    return routes.map((route) => ({ route, url: joinUrl(base, route, trailingSlash) }));
+  }
+
+  const localesByPath = new Map<string, Set<string>>();
+  for (const route of routes) {
+    const { locale, path: localePath } = splitLocale(route, i18n.locales);
+    const locales = localesByPath.get(localePath) ?? new Set<string>();
+    if (locale) {
+      locales.add(locale);
+    }
+    localesByPath.set(localePath, locales);
+  }
+
+  const urls: RouteUrl[] = [];
+  const seen = new Set<string>();
+  for (const [localePath, prerenderedLocales] of localesByPath) {
+    const locales = prerenderedLocales.size ? i18n.locales.filter((locale) => prerenderedLocales.has(locale)) : i18n.locales;
+    for (const locale of locales) {
+      const { base, prefix } = localeBase(locale, normalizedBase, config);
+      const publicPath = localePath === '/' ? prefix || '/' : `${prefix}${localePath}`;
+      const url = joinUrl(base, publicPath, trailingSlash);
+      if (seen.has(url)) continue;
+      seen.add(url);
+      urls.push({ route: localePath === '/' ? `/${locale}` : `/${locale}${localePath}`, url });
+    }
+  }
+  return urls;
+}
@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+import { readSitemap, readSitemapUrls } from './sitemap';
+
+async function createSitemapDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-sitemap-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.mkdir(path.join(dir, 'sitemap'), { recursive: true });
+  await fs.writeFile(
+    path.join(dir, 'sitemap.xml.body'),
+    `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap/0.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+</sitemapindex>`,
+  );
+  await fs.writeFile(
+    path.join(dir, 'sitemap', '0.xml.body'),
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/</loc><lastmod>2024-01-01</lastmod></url>
+  <url><loc>https://example.com/search?q=a&amp;b=c</loc></url>
+</urlset>`,
+  );
+  await fs.writeFile(
+    path.join(dir, 'sitemap-posts.xml.gz'),
+    gzipSync(`<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc><![CDATA[https://example.com/blog/hello]]></loc><lastmod>2024-06-01T10:00:00Z</lastmod></url>
+</urlset>`),
+  );
+  return dir;
+}
+
+test('readSitemap follows sitemap indexes into built and gzipped sitemaps', async (t) => {
+  const dir = await createSitemapDir(t);
+
+  const entries = await readSitemap(path.join(dir, 'sitemap.xml'));
+
+  assert.deepEqual(entries, [
+    { loc: 'https://example.com/', lastmod: '2024-01-01' },
+    { loc: 'https://example.com/search?q=a&b=c' },
+    { loc: 'https://example.com/blog/hello', lastmod: '2024-06-01T10:00:00Z' },
+  ]);
+});
+
+test('readSitemapUrls filters by lastmod but keeps entries without one', async (t) => {
+  const dir = await createSitemapDir(t);
+
+  const { discovered, modified } = await readSitemapUrls('indexnow', dir, '2024-03-01');
+
+  assert.equal(discovered.length, 3);
+  assert.deepEqual(
+    modified.map((entry) => entry.route),
+    ['/search', '/blog/hello'],
+  );
+});
@@ -0,0 +1,236 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { readLastRunAt } from './state';
+import type { RouteUrl, SubmissionEngine } from './state';
+
+/** Value for `sitemapModifiedSince` that selects the start of the last accepted run from the state file. */
+export const SINCE_LAST_RUN = 'last-run';
+
+export interface SitemapEntry {
+  /** Absolute URL listed in the sitemap */
+  loc: string;
+  /** Raw `lastmod` value, when present */
+  lastmod?: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlText(value: string): string {
+  const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(value.trim());
+  if (cdata) {
+    return cdata[1].trim();
+  }
+  return value
+    .trim()
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+      }
+      return XML_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'i').exec(block);
+  return match ? decodeXmlText(match[1]) : undefined;
+}
+
+function readBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+async function readSitemapFile(filePath: string): Promise<string> {
+  const contents = await fs.readFile(filePath);
+  // Gzipped sitemaps are detected by their magic bytes so `.xml.gz` and extension-less artifacts both work.
+  if (contents.length > 2 && contents[0] === 0x1f && contents[1] === 0x8b) {
+    return gunzipSync(contents).toString('utf8');
+  }
+  return contents.toString('utf8');
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isFile();
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Maps the absolute `loc` of a child sitemap to a local file next to the sitemap index. Built App Router
+ * sitemaps are stored with a `.body` suffix (for example `.next/server/app/sitemap/0.xml.body`).
+ */
+async function resolveChildSitemap(indexPath: string, loc: string): Promise<string | undefined> {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(loc).pathname);
+  } catch {
+    pathname = loc;
+  }
+  const dir = path.dirname(indexPath);
+  const candidates = [path.join(dir, pathname), path.join(dir, path.basename(pathname))];
+  for (const candidate of candidates) {
+    for (const suffix of ['', '.body', '.gz']) {
+      if (await fileExists(`${candidate}${suffix}`)) {
+        return `${candidate}${suffix}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+async function resolveSitemapPath(source: string): Promise<string> {
+  const resolvedPath = path.resolve(source);
+  for (const candidate of [resolvedPath, `${resolvedPath}.body`]) {
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+  }
+  try {
+    const stats = await fs.stat(resolvedPath);
+    if (stats.isDirectory()) {
+      for (const name of ['sitemap.xml', 'sitemap.xml.body', 'sitemap.xml.gz']) {
+        if (await fileExists(path.join(resolvedPath, name))) {
+          return path.join(resolvedPath, name);
+        }
+      }
+    }
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  throw new Error(`Sitemap not found at ${resolvedPath}.`);
+}
+
+async function collectEntries(filePath: string, visited: Set<string>, entries: SitemapEntry[]): Promise<void> {
+  if (visited.has(filePath)) {
+    return;
+  }
+  visited.add(filePath);
+
+  const xml = await readSitemapFile(filePath);
+  if (/<(?:[\w-]+:)?sitemapindex\b/i.test(xml)) {
+    for (const block of readBlocks(xml, 'sitemap')) {
+      const loc = readTag(block, 'loc');
+      if (!loc) continue;
+      const childPath = await resolveChildSitemap(filePath, loc);
+      if (!childPath) {
+        console.warn(`Skipping sitemap ${loc} listed in ${filePath} (no matching local file).`);
+        continue;
+      }
+      await collectEntries(childPath, visited, entries);
+    }
+    return;
+  }
+
+  if (!/<(?:[\w-]+:)?urlset\b/i.test(xml)) {
+    throw new Error(`Expected a <urlset> or <sitemapindex> document in ${filePath}.`);
+  }
+  for (const block of readBlocks(xml, 'url')) {
+    const loc = readTag(block, 'loc');
+    if (!loc) continue;
+    const lastmod = readTag(block, 'lastmod');
+    entries.push(lastmod ? { loc, lastmod } : { loc });
+  }
+}
+
+/**
+ * Reads the URLs listed in a local sitemap or sitemap index. `source` may point to `sitemap.xml`, a gzipped
+ * sitemap, the `.next/server/app/sitemap.xml.body` build artifact or a directory that contains one of them.
+ * Child sitemaps of an index are resolved relative to the index file.
+ */
+export async function readSitemap(source: string): Promise<SitemapEntry[]> {
+  const entries: SitemapEntry[] = [];
+  await collectEntries(await resolveSitemapPath(source), new Set<string>(), entries);
+
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    if (seen.has(entry.loc)) {
+      return false;
+    }
+    seen.add(entry.loc);
+    return true;
+  });
+}
+
+/**
+ * Returns true when the entry was modified on or after `since`. Entries without a valid `lastmod` are kept
+ * because there is no way to tell whether they changed.
+ */
+export function isModifiedSince(entry: SitemapEntry, since: Date): boolean {
+  if (!entry.lastmod) {
+    return true;
+  }
+  const lastmod = new Date(entry.lastmod);
+  if (Number.isNaN(lastmod.getTime())) {
+    return true;
+  }
+  return lastmod.getTime() >= since.getTime();
+}
+
+async function resolveModifiedSince(
+  engine: SubmissionEngine,
+  modifiedSince: Date | string,
+  statePath?: string,
+): Promise<Date | undefined> {
+  if (modifiedSince === SINCE_LAST_RUN) {
+    return readLastRunAt(engine, statePath);
+  }
+  const date = modifiedSince instanceof Date ? modifiedSince : new Date(modifiedSince);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`\`sitemapModifiedSince\` must be a date or "${SINCE_LAST_RUN}". Received: ${modifiedSince}`);
+  }
+  return date;
+}
+
+/**
+ * Reads the URLs of a sitemap for `engine`. `discovered` lists every URL in the sitemap, while `modified`
+ * only keeps the URLs whose `lastmod` passes the `modifiedSince` filter.
+ */
+export async function readSitemapUrls(
+  engine: SubmissionEngine,
+  source: string,
+  modifiedSince?: Date | string,
+  statePath?: string,
+): Promise<{ discovered: RouteUrl[]; modified: RouteUrl[] }> {
+  const since = modifiedSince === undefined ? undefined : await resolveModifiedSince(engine, modifiedSince, statePath);
+  const discovered: RouteUrl[] = [];
+  const modified: RouteUrl[] = [];
+  for (const entry of await readSitemap(source)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(entry.loc);
+    } catch {
+      throw new Error(`Invalid URL in sitemap ${source}: ${entry.loc}`);
+    }
+    const route = parsed.pathname !== '/' && parsed.pathname.endsWith('/') ? parsed.pathname.slice(0, -1) : parsed.pathname;
+    const routeUrl: RouteUrl = { route, url: parsed.toString() };
+    if (entry.lastmod) {
+      routeUrl.lastmod = entry.lastmod;
+    }
+    discovered.push(routeUrl);
+    if (!since || isModifiedSince(entry, since)) {
+      modified.push(routeUrl);
+    }
+  }
+  return { discovered, modified };
+}
@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { computeRouteHashes, planTrackedSubmission, updateSubmissionState } from './state';
+
+async function createBuildDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-indexing-pack-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.mkdir(path.join(dir, 'server', 'app'), { recursive: true });
+  return dir;
+}
+
+test('computeRouteHashes ignores the build ID embedded in prerendered output', async (t) => {
+  const first = await createBuildDir(t);
+  const second = await createBuildDir(t);
+  await fs.writeFile(path.join(first, 'BUILD_ID'), 'build-one');
+  await fs.writeFile(path.join(first, 'server', 'app', 'about.html'), '<script src="/_next/static/build-one/a.js"></script>');
+  await fs.writeFile(path.join(second, 'BUILD_ID'), 'build-two');
+  await fs.writeFile(path.join(second, 'server', 'app', 'about.html'), '<script src="/_next/static/build-two/a.js"></script>');
+
+  const [firstHashes, secondHashes] = await Promise.all([
+    computeRouteHashes(first, ['/about', '/dynamic']),
+    computeRouteHashes(second, ['/about']),
+  ]);
+
+  assert.ok(firstHashes.get('/about'));
+  assert.equal(firstHashes.get('/about'), secondHashes.get('/about'));
+  assert.equal(firstHashes.get('/dynamic'), undefined);
+});
+
+test('planTrackedSubmission only returns new or modified routes', async (t) => {
+  const buildDir = await createBuildDir(t);
+  const stateFile = path.join(buildDir, 'state.json');
+  const options = { nextBuildDir: buildDir, baseUrl: 'https://example.com', changedOnly: true, stateFile };
+  await fs.writeFile(path.join(buildDir, 'server', 'app', 'index.html'), 'home');
+  await fs.writeFile(path.join(buildDir, 'server', 'app', 'about.html'), 'about');
+  const entries = [
+    { route: '/', url: 'https://example.com' },
+    { route: '/about', url: 'https://example.com/about' },
+  ];
+
+  const initial = await planTrackedSubmission('indexnow', entries, entries, options);
+  assert.deepEqual(
+    initial.entries.map((entry) => entry.route),
+    ['/', '/about'],
+  );
+  await updateSubmissionState('indexnow', { accepted: initial.entries }, stateFile);
+
+  await fs.writeFile(path.join(buildDir, 'server', 'app', 'about.html'), 'about, updated');
+  const next = await planTrackedSubmission('indexnow', entries, entries, options);
+  assert.deepEqual(
+    next.entries.map((entry) => entry.route),
+    ['/about'],
+  );
+  assert.deepEqual(next.unchanged, ['https://example.com']);
+
+  const otherEngine = await planTrackedSubmission('google', entries, entries, options);
+  assert.equal(otherEngine.entries.length, 2);
+});
+
+test('planTrackedSubmission reports routes that disappeared since the previous build', async (t) => {
+  const buildDir = await createBuildDir(t);
+  const stateFile = path.join(buildDir, 'state.json');
+  const options = { nextBuildDir: buildDir, baseUrl: 'https://example.com', notifyRemoved: true, stateFile };
+  const home = { route: '/', url: 'https://example.com' };
+  const about = { route: '/about', url: 'https://example.com/about' };
+  await updateSubmissionState(
+    'google',
+    { accepted: [home, about, { route: '/', url: 'https://other.example.com' }] },
+    stateFile,
+  );
+
+  const plan = await planTrackedSubmission('google', [home], [home], options);
+  assert.deepEqual(plan.removed, ['https://example.com/about']);
+
+  const emptyBuild = await planTrackedSubmission('google', [], [], options);
+  assert.deepEqual(emptyBuild.removed, []);
+
+  await updateSubmissionState('google', { accepted: [], removed: plan.removed }, stateFile);
+  const afterDeletion = await planTrackedSubmission('google', [home], [home], options);
+  assert.deepEqual(afterDeletion.removed, []);
+});
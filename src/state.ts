@@ -0,0 +1,362 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { readExportBuildId } from './build-output';
+
+export const DEFAULT_STATE_PATH = path.join('.nextjs-indexing-pack', 'state.json');
+
+const STATE_VERSION = 1;
+
+const APP_OUTPUT_EXTENSIONS = ['.html', '.rsc', '.body'];
+const PAGES_OUTPUT_EXTENSIONS = ['.html', '.json'];
+
+export type SubmissionEngine = 'indexnow' | 'google';
+
+export interface SubmittedUrlState {
+  /** Content hash of the prerendered output at the time of the last accepted submission */
+  hash?: string;
+  /** ISO timestamp of the last accepted submission */
+  submittedAt: string;
+}
+
+export interface QueuedGoogleNotification {
+  url: string;
+  type: 'URL_UPDATED' | 'URL_DELETED';
+  /** ISO timestamp of the run that deferred the notification */
+  queuedAt: string;
+  /** Last modification date of the page, when known */
+  lastmod?: string;
+}
+
+export interface GoogleQuotaRecord {
+  /** ISO timestamps of the publish requests sent during the last 24 hours */
+  requests: string[];
+  /** Notifications deferred to a later run because the daily quota was exhausted */
+  queue: QueuedGoogleNotification[];
+}
+
+export interface SubmissionState {
+  version: number;
+  engines: Partial<Record<SubmissionEngine, Record<string, SubmittedUrlState>>>;
+  /** ISO timestamp of the start of the last run whose submissions were accepted, per engine */
+  lastRunAt?: Partial<Record<SubmissionEngine, string>>;
+  /** Google Indexing API quota usage and deferred notifications, per service account email */
+  googleQuota?: Record<string, GoogleQuotaRecord>;
+}
+
+export interface RouteUrl {
+  route: string;
+  url: string;
+  hash?: string;
+  /** Last modification date of the page, when known (for example from a sitemap `lastmod`) */
+  lastmod?: string;
+}
+
+function createEmptyState(): SubmissionState {
+  return { version: STATE_VERSION, engines: {} };
+}
+
+export function resolveStatePath(statePath = DEFAULT_STATE_PATH): string {
+  return path.resolve(statePath);
+}
+
+export async function readSubmissionState(statePath?: string): Promise<SubmissionState> {
+  const resolvedPath = resolveStatePath(statePath);
+  let contents: string;
+  try {
+    contents = await fs.readFile(resolvedPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return createEmptyState();
+    }
+    throw error;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Failed to parse nextjs-indexing-pack state at ${resolvedPath}: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || parsed.version !== STATE_VERSION) {
+    console.warn(`Ignoring nextjs-indexing-pack state at ${resolvedPath} (unsupported format).`);
+    return createEmptyState();
+  }
+  const state: SubmissionState = {
+    version: STATE_VERSION,
+    engines: parsed.engines && typeof parsed.engines === 'object' ? parsed.engines : {},
+  };
+  if (parsed.lastRunAt && typeof parsed.lastRunAt === 'object') {
+    state.lastRunAt = parsed.lastRunAt;
+  }
+  if (parsed.googleQuota && typeof parsed.googleQuota === 'object') {
+    state.googleQuota = parsed.googleQuota;
+  }
+  return state;
+}
+
+export async function writeSubmissionState(state: SubmissionState, statePath?: string): Promise<void> {
+  const resolvedPath = resolveStatePath(statePath);
+  await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+  await fs.writeFile(resolvedPath, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+}
+
+export async function readLastRunAt(engine: SubmissionEngine, statePath?: string): Promise<Date | undefined> {
+  const state = await readSubmissionState(statePath);
+  const value = state.lastRunAt?.[engine];
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function recordLastRun(engine: SubmissionEngine, startedAt: Date, statePath?: string): Promise<void> {
+  const state = await readSubmissionState(statePath);
+  state.lastRunAt = { ...(state.lastRunAt ?? {}), [engine]: startedAt.toISOString() };
+  await writeSubmissionState(state, statePath);
+}
+
+async function readFileIfExists(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'EISDIR') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readBuildId(resolvedDir: string, exportDir?: string): Promise<string | undefined> {
+  const buildId = await readFileIfExists(path.join(resolvedDir, 'BUILD_ID'));
+  const value = buildId?.toString('utf8').trim();
+  if (value || !exportDir) {
+    return value || undefined;
+  }
+  return readExportBuildId(exportDir);
+}
+
+/**
+ * Returns the files in `.next/server/app` and `.next/server/pages` that may hold the prerendered output of `route`,
+ * followed by its HTML in the static export directory when one is given.
+ */
+export function getRouteOutputCandidates(resolvedDir: string, route: string, exportDir?: string): string[] {
+  const name = route === '/' ? 'index' : route.replace(/^\//, '');
+  const candidates: string[] = [];
+  for (const extension of APP_OUTPUT_EXTENSIONS) {
+    candidates.push(path.join(resolvedDir, 'server', 'app', `${name}${extension}`));
+  }
+  for (const extension of PAGES_OUTPUT_EXTENSIONS) {
+    candidates.push(path.join(resolvedDir, 'server', 'pages', `${name}${extension}`));
+  }
+  if (exportDir) {
+    const resolvedExportDir = path.resolve(exportDir);
+    candidates.push(path.join(resolvedExportDir, `${name}.html`));
+    if (route !== '/') {
+      candidates.push(path.join(resolvedExportDir, name, 'index.html'));
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Returns the modification time of the newest prerendered output file of `route`, if any.
+ */
+export async function readRouteLastModified(
+  resolvedDir: string,
+  route: string,
+  exportDir?: string,
+): Promise<Date | undefined> {
+  let latest: Date | undefined;
+  for (const filePath of getRouteOutputCandidates(resolvedDir, route, exportDir)) {
+    try {
+      const stats = await fs.stat(filePath);
+      if (!latest || stats.mtime > latest) {
+        latest = stats.mtime;
+      }
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+  return latest;
+}
+
+async function hashRoute(
+  resolvedDir: string,
+  route: string,
+  buildId?: string,
+  exportDir?: string,
+): Promise<string | undefined> {
+  const hash = createHash('sha256');
+  let found = false;
+  for (const candidate of getRouteOutputCandidates(resolvedDir, route, exportDir)) {
+    const contents = await readFileIfExists(candidate);
+    if (!contents) continue;
+    found = true;
+    // The build ID is embedded in asset paths and page data, so it would otherwise mark every route as changed.
+    const text = buildId ? contents.toString('utf8').split(buildId).join('') : contents.toString('utf8');
+    hash.update(path.relative(resolvedDir, candidate));
+    hash.update('\0');
+    hash.update(text);
+    hash.update('\0');
+  }
+  return found ? hash.digest('hex') : undefined;
+}
+
+/**
+ * Computes a content hash for each route from its prerendered output in `.next/server/app`,
+ * `.next/server/pages` and the static export directory. Routes that are rendered on demand have no output and
+ * map to `undefined`.
+ */
+export async function computeRouteHashes(
+  nextBuildDir: string,
+  routes: string[],
+  exportDir?: string,
+): Promise<Map<string, string | undefined>> {
+  const resolvedDir = path.resolve(nextBuildDir);
+  const buildId = await readBuildId(resolvedDir, exportDir);
+  const hashes = new Map<string, string | undefined>();
+  for (const route of routes) {
+    hashes.set(route, await hashRoute(resolvedDir, route, buildId, exportDir));
+  }
+  return hashes;
+}
+
+/**
+ * Attaches the prerendered output hash to each route so it can be compared with, or stored in, the state file.
+ */
+export async function withRouteHashes(entries: RouteUrl[], nextBuildDir: string, exportDir?: string): Promise<RouteUrl[]> {
+  const hashes = await computeRouteHashes(
+    nextBuildDir,
+    entries.map((entry) => entry.route),
+    exportDir,
+  );
+  return entries.map((entry) => ({ ...entry, hash: hashes.get(entry.route) }));
+}
+
+/**
+ * Splits hashed routes into those that are new or whose prerendered output changed since the last
+ * accepted submission to `engine`, and those that can be skipped.
+ */
+export async function selectChangedUrls(
+  engine: SubmissionEngine,
+  entries: RouteUrl[],
+  statePath?: string,
+): Promise<{ changed: RouteUrl[]; unchanged: RouteUrl[] }> {
+  const state = await readSubmissionState(statePath);
+  const previous = state.engines[engine] ?? {};
+
+  const changed: RouteUrl[] = [];
+  const unchanged: RouteUrl[] = [];
+  for (const entry of entries) {
+    const recorded = previous[entry.url];
+    // Routes without prerendered output cannot be compared, so they are only submitted the first time they are seen.
+    if (!recorded || (entry.hash !== undefined && recorded.hash !== entry.hash)) {
+      changed.push(entry);
+    } else {
+      unchanged.push(entry);
+    }
+  }
+  return { changed, unchanged };
+}
+
+/**
+ * Returns URLs below `baseUrl` that `engine` accepted in a previous build but that are no longer part of
+ * the discovered route set.
+ */
+export async function findRemovedUrls(
+  engine: SubmissionEngine,
+  discoveredUrls: string[],
+  baseUrl: string,
+  statePath?: string,
+): Promise<string[]> {
+  const state = await readSubmissionState(statePath);
+  const previous = state.engines[engine] ?? {};
+  // URLs are compared without trailing slashes so switching URL sources does not report the same page as removed.
+  const toComparable = (url: string) => url.replace(/\/+(?=$|[?#])/, '');
+  const discovered = new Set(discoveredUrls.map(toComparable));
+  return Object.keys(previous)
+    .filter((url) => (url === baseUrl || url.startsWith(`${baseUrl}/`)) && !discovered.has(toComparable(url)))
+    .sort();
+}
+
+/**
+ * Records URLs that were accepted by `engine` and forgets removed URLs whose deletion was accepted, so
+ * later runs can skip unchanged routes and detect routes that disappeared.
+ */
+export async function updateSubmissionState(
+  engine: SubmissionEngine,
+  changes: { accepted: RouteUrl[]; removed?: string[] },
+  statePath?: string,
+): Promise<void> {
+  const removed = changes.removed ?? [];
+  if (!changes.accepted.length && !removed.length) {
+    return;
+  }
+  const state = await readSubmissionState(statePath);
+  const records = { ...(state.engines[engine] ?? {}) };
+  const submittedAt = new Date().toISOString();
+  for (const entry of changes.accepted) {
+    records[entry.url] = entry.hash === undefined ? { submittedAt } : { hash: entry.hash, submittedAt };
+  }
+  for (const url of removed) {
+    delete records[url];
+  }
+  state.engines[engine] = records;
+  await writeSubmissionState(state, statePath);
+}
+
+export interface TrackedSubmissionOptions {
+  nextBuildDir: string;
+  /** Static export directory whose HTML is hashed as well */
+  exportDir?: string;
+  baseUrl: string;
+  changedOnly?: boolean;
+  notifyRemoved?: boolean;
+  stateFile?: string;
+}
+
+export interface TrackedSubmission {
+  /** Routes that should be submitted, with their output hash */
+  entries: RouteUrl[];
+  /** URLs skipped because their prerendered output did not change */
+  unchanged: string[];
+  /** URLs that disappeared since the previous build */
+  removed: string[];
+}
+
+/**
+ * Applies the `changedOnly` and `notifyRemoved` options to the routes discovered for `engine`.
+ * `discovered` is the full route set before any user filter is applied.
+ */
+export async function planTrackedSubmission(
+  engine: SubmissionEngine,
+  discovered: RouteUrl[],
+  entries: RouteUrl[],
+  options: TrackedSubmissionOptions,
+): Promise<TrackedSubmission> {
+  const { nextBuildDir, exportDir, baseUrl, changedOnly, notifyRemoved, stateFile } = options;
+  let selected = await withRouteHashes(entries, nextBuildDir, exportDir);
+  let unchanged: string[] = [];
+  if (changedOnly) {
+    const selection = await selectChangedUrls(engine, selected, stateFile);
+    selected = selection.changed;
+    unchanged = selection.unchanged.map((entry) => entry.url);
+  }
+
+  let removed: string[] = [];
+  // An empty route set usually means the build output is missing, which must not be mistaken for deleted content.
+  if (notifyRemoved && discovered.length) {
+    removed = await findRemovedUrls(
+      engine,
+      discovered.map((entry) => entry.url),
+      baseUrl,
+      stateFile,
+    );
+  }
+
+  return { entries: selected, unchanged, removed };
+}
@@ -0,0 +1,30 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compilePathPattern, createUrlFilter } from './url-patterns';
+
+test('compilePathPattern matches single and multiple path segments', () => {
+  assert.ok(compilePathPattern('/blog/*').test('/blog/hello'));
+  assert.ok(!compilePathPattern('/blog/*').test('/blog/2024/hello'));
+  assert.ok(compilePathPattern('/blog/**').test('/blog'));
+  assert.ok(compilePathPattern('/blog/**').test('/blog/2024/hello'));
+  assert.ok(!compilePathPattern('/blog/**').test('/blogroll'));
+  assert.ok(compilePathPattern('/docs/v?/**/intro').test('/docs/v2/guide/setup/intro'));
+  assert.ok(compilePathPattern('/about/').test('/about'));
+});
+
+test('createUrlFilter applies include, exclude and urlFilter in order', () => {
+  assert.equal(createUrlFilter({}), undefined);
+
+  const filter = createUrlFilter({
+    include: ['/blog/**', '/'],
+    exclude: ['/blog/drafts/**'],
+    urlFilter: (url) => !url.endsWith('/secret'),
+  });
+  assert.ok(filter);
+  assert.equal(filter('https://example.com/'), true);
+  assert.equal(filter('https://example.com/blog/hello/'), true);
+  assert.equal(filter('https://example.com/about'), false);
+  assert.equal(filter('https://example.com/blog/drafts/wip'), false);
+  assert.equal(filter('https://example.com/blog/secret'), false);
+});
@@ -0,0 +1,73 @@
+export interface UrlPatternOptions {
+  /**
+   * Only URLs whose path matches one of these patterns are submitted (e.g. `/blog/**`).
+   */
+  include?: string[];
+  /**
+   * URLs whose path matches one of these patterns are never submitted (e.g. `/drafts/**`).
+   */
+  exclude?: string[];
+  /**
+   * Custom filter that runs after the include and exclude patterns.
+   */
+  urlFilter?: (url: string) => boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizePath(pathname: string): string {
+  return pathname.length > 1 && pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+}
+
+/**
+ * Compiles a path pattern: `*` matches within a path segment, `**` matches across segments and `?` matches a
+ * single character. `/blog/**` matches `/blog` and everything below it.
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  let normalized = normalizePath(pattern.startsWith('/') ? pattern : `/${pattern}`);
+  let suffix = '';
+  if (normalized.endsWith('/**')) {
+    normalized = normalized.slice(0, -3);
+    suffix = '(?:/.*)?';
+  }
+  let source = '';
+  for (let index = 0; index < normalized.length; index += 1) {
+    const char = normalized[index];
+    if (char === '*' && normalized[index + 1] === '*') {
+      source += '.*';
+      index += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}${suffix}$`);
+}
+
+/**
+ * Combines include and exclude patterns and a custom filter into a single URL filter. Returns undefined when
+ * nothing is configured.
+ */
+export function createUrlFilter(options: UrlPatternOptions): ((url: string) => boolean) | undefined {
+  const include = options.include?.map(compilePathPattern) ?? [];
+  const exclude = options.exclude?.map(compilePathPattern) ?? [];
+  const { urlFilter } = options;
+  if (!include.length && !exclude.length && !urlFilter) {
+    return undefined;
+  }
+  return (url: string) => {
+    const pathname = normalizePath(new URL(url).pathname);
+    if (include.length && !include.some((pattern) => pattern.test(pathname))) {
+      return false;
+    }
+    if (exclude.some((pattern) => pattern.test(pathname))) {
+      return false;
+    }
+    return urlFilter ? urlFilter(url) : true;
+  };
+}
@@ -0,0 +1,229 @@
+import { createSignedJwt, readServiceAccount } from './google-auth';
+import { GOOGLE_SERVICE_ACCOUNT_JSON_ENV } from './google-auth';
+import type { GoogleCredentialsOptions } from './google-auth';
+import { fetchWithRetry } from './retry';
+import type { RetryPolicy } from './retry';
+import { applyBasePath, readRoutingConfig } from './routing';
+import { resolveNextBuildDir } from './build-output';
+import { INDEXNOW_KEY_PATTERN } from './indexnow-key';
+
+export type VerifyCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface VerifyCheck {
+  /** Short name of the check, e.g. `IndexNow key file` */
+  name: string;
+  status: VerifyCheckStatus;
+  /** What was checked and what was found */
+  message: string;
+  /** Suggested fix when the check failed */
+  fix?: string;
+}
+
+export interface VerifySetupOptions extends GoogleCredentialsOptions {
+  /**
+   * Fully qualified base URL of your Next.js application (e.g. https://example.com)
+   */
+  baseUrl: string;
+  /**
+   * IndexNow key value. The IndexNow checks are skipped when no key is given.
+   */
+  key?: string;
+  /**
+   * Absolute URL of the key file. Defaults to `${baseUrl}/${key}.txt`, including the `basePath` of the build.
+   */
+  keyLocation?: string;
+  /**
+   * Directory that contains the compiled Next.js output. Used to read `basePath`. Defaults to `.next`.
+   */
+  nextBuildDir?: string;
+  /**
+   * When false, the Google service account check is skipped even if credentials are available.
+   */
+  google?: boolean;
+  /**
+   * Retry policy for the HTTP checks. Pass `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
+}
+
+export interface VerifySetupResult {
+  /** True when no check failed */
+  ok: boolean;
+  checks: VerifyCheck[];
+}
+
+function describeResponse(response: Response): string {
+  return `status ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+}
+
+async function checkBaseUrl(baseUrl: string, retry?: RetryPolicy | false): Promise<VerifyCheck> {
+  const name = 'Base URL';
+  const { response, error } = await fetchWithRetry(baseUrl, { redirect: 'follow' }, retry);
+  if (!response) {
+    return {
+      name,
+      status: 'fail',
+      message: `${baseUrl} could not be reached (${error?.message ?? 'no response'}).`,
+      fix: 'Check that the base URL points at the deployed site and that its DNS and TLS certificate are valid.',
+    };
+  }
+  await response.arrayBuffer().catch(() => undefined);
+  if (!response.ok) {
+    return {
+      name,
+      status: 'fail',
+      message: `${baseUrl} responded with ${describeResponse(response)}.`,
+      fix: 'Make sure the site is deployed and publicly reachable, without authentication or IP restrictions.',
+    };
+  }
+  return { name, status: 'pass', message: `${baseUrl} responded with ${describeResponse(response)}.` };
+}
+
+function checkKeyFormat(key: string): VerifyCheck {
+  const name = 'IndexNow key';
+  if (!INDEXNOW_KEY_PATTERN.test(key)) {
+    return {
+      name,
+      status: 'fail',
+      message: 'The key must be 8 to 128 characters long and only contain letters, digits and dashes.',
+      fix: 'Generate a new key with "npx nextjs-indexing-pack init".',
+    };
+  }
+  return { name, status: 'pass', message: `The key has a valid format (${key.length} characters).` };
+}
+
+async function checkKeyFile(key: string, keyLocation: string, retry?: RetryPolicy | false): Promise<VerifyCheck> {
+  const name = 'IndexNow key file';
+  const deployFix =
+    `Deploy the key so that ${keyLocation} serves it as plain text: add public/${key}.txt to the Next.js app, or ` +
+    'serve it with createIndexNowKeyRoute and the rewrites from getIndexNowKeyRewrites.';
+  const { response, error } = await fetchWithRetry(keyLocation, { redirect: 'follow' }, retry);
+  if (!response) {
+    return {
+      name,
+      status: 'fail',
+      message: `${keyLocation} could not be reached (${error?.message ?? 'no response'}).`,
+      fix: deployFix,
+    };
+  }
+  const body = await response.text();
+  if (!response.ok) {
+    return {
+      name,
+      status: 'fail',
+      message: `${keyLocation} responded with ${describeResponse(response)}.`,
+      fix: deployFix,
+    };
+  }
+  if (body === key) {
+    return { name, status: 'pass', message: `${keyLocation} serves the key.` };
+  }
+  if (body.trim() === key) {
+    return {
+      name,
+      status: 'fail',
+      message: `${keyLocation} serves the key surrounded by whitespace.`,
+      fix: 'Remove the whitespace and trailing newline from the key file so it only contains the key.',
+    };
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('text/html')) {
+    return {
+      name,
+      status: 'fail',
+      message: `${keyLocation} returned an HTML page instead of the key.`,
+      fix: `${deployFix} Check that middleware, rewrites or a catch-all route do not intercept the request.`,
+    };
+  }
+  return {
+    name,
+    status: 'fail',
+    message: `${keyLocation} does not contain the key (received ${body.length} characters).`,
+    fix: `Update the key file so its content is exactly "${key}", or pass the key that matches the deployed file.`,
+  };
+}
+
+async function checkGoogleServiceAccount(options: GoogleCredentialsOptions): Promise<VerifyCheck> {
+  const name = 'Google service account';
+  let clientEmail: string;
+  try {
+    const serviceAccount = await readServiceAccount(options);
+    clientEmail = serviceAccount.clientEmail;
+    createSignedJwt(serviceAccount);
+  } catch (error: any) {
+    const missingFile = error?.code === 'ENOENT';
+    return {
+      name,
+      status: 'fail',
+      message: missingFile
+        ? `Credentials file not found: ${error?.path ?? options.serviceAccountPath}.`
+        : error?.message ?? String(error),
+      fix: missingFile
+        ? 'Point GOOGLE_APPLICATION_CREDENTIALS or --google-service-account at the JSON key downloaded from Google Cloud.'
+        : 'Download a new JSON key for the service account from Google Cloud and make sure "private_key" is a PEM encoded key.',
+    };
+  }
+  return { name, status: 'pass', message: `Credentials for ${clientEmail} parse and can sign a JWT.` };
+}
+
+/**
+ * Returns the credentials to check, falling back to the file in GOOGLE_APPLICATION_CREDENTIALS like the CLI does.
+ * Resolves with undefined when no credentials are configured.
+ */
+function resolveGoogleCredentials(options: GoogleCredentialsOptions): GoogleCredentialsOptions | undefined {
+  if (options.serviceAccount || options.serviceAccountPath || process.env[GOOGLE_SERVICE_ACCOUNT_JSON_ENV]) {
+    return options;
+  }
+  const serviceAccountPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  return serviceAccountPath ? { ...options, serviceAccountPath } : undefined;
+}
+
+/**
+ * Checks that the site is reachable, the IndexNow key file is deployed with the right content and the
+ * Google service account credentials can sign a JWT. The Google check runs offline.
+ */
+export async function verifySetup(options: VerifySetupOptions): Promise<VerifySetupResult> {
+  const { baseUrl, key, keyLocation, nextBuildDir = '.next', google, retry } = options;
+  if (!baseUrl) {
+    throw new Error('`baseUrl` must be provided.');
+  }
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new Error(`\`baseUrl\` must be a fully qualified URL (for example, https://example.com). Received: ${baseUrl}`);
+  }
+  const pathname = url.pathname.endsWith('/') && url.pathname !== '/' ? url.pathname.slice(0, -1) : url.pathname;
+  const normalizedBase = `${url.origin}${pathname === '/' ? '' : pathname}`;
+
+  const checks: VerifyCheck[] = [await checkBaseUrl(url.toString(), retry)];
+
+  if (key) {
+    checks.push(checkKeyFormat(key));
+    const { basePath } = await readRoutingConfig(await resolveNextBuildDir(nextBuildDir));
+    const resolvedKeyLocation = keyLocation ?? `${applyBasePath(normalizedBase, basePath)}/${key}.txt`;
+    checks.push(await checkKeyFile(key, resolvedKeyLocation, retry));
+  } else {
+    checks.push({
+      name: 'IndexNow key',
+      status: 'skip',
+      message: 'No IndexNow key configured.',
+      fix: 'Pass --key <value> or set INDEXNOW_KEY to check the key file.',
+    });
+  }
+
+  const googleCredentials = resolveGoogleCredentials(options);
+  if (google === false) {
+    checks.push({ name: 'Google service account', status: 'skip', message: 'Google Indexing API check disabled.' });
+  } else if (googleCredentials) {
+    checks.push(await checkGoogleServiceAccount(googleCredentials));
+  } else {
+    checks.push({
+      name: 'Google service account',
+      status: 'skip',
+      message: 'No Google service account credentials configured.',
+    });
+  }
+
+  return { ok: checks.every((check) => check.status !== 'fail'), checks };
+}
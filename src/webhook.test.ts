@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+
+import { createRevalidationWebhookRoute, verifyWebhookSignature } from './webhook';
+
+const SECRET = 'webhook-secret';
+
+function sign(body: string): string {
+  return createHmac('sha256', SECRET).update(body).digest('hex');
+}
+
+test('verifyWebhookSignature accepts hex signatures with or without an algorithm prefix', () => {
+  const body = '{"slug":"hello"}';
+  assert.equal(verifyWebhookSignature(body, sign(body), SECRET), true);
+  assert.equal(verifyWebhookSignature(body, `sha256=${sign(body)}`, SECRET), true);
+  assert.equal(verifyWebhookSignature(body, sign('{"slug":"other"}'), SECRET), false);
+  assert.equal(verifyWebhookSignature(body, 'abc', SECRET), false);
+  assert.equal(verifyWebhookSignature(body, null, SECRET), false);
+});
+
+test('createRevalidationWebhookRoute revalidates and submits the mapped paths', async () => {
+  const revalidated: string[] = [];
+  const POST = createRevalidationWebhookRoute({
+    secret: SECRET,
+    baseUrl: 'https://example.com',
+    key: 'abcdef0123456789',
+    engines: ['indexnow'],
+    dryRun: true,
+    getTargets: (payload) => ({ paths: [`/blog/${payload.slug}`, 'https://example.com/blog'], type: 'updated' }),
+    revalidate: (path) => {
+      revalidated.push(path);
+    },
+  });
+
+  const body = JSON.stringify({ slug: 'hello' });
+  const unsigned = await POST(new Request('https://example.com/api/webhook', { method: 'POST', body }));
+  assert.equal(unsigned.status, 401);
+  assert.deepEqual(revalidated, []);
+
+  const response = await POST(
+    new Request('https://example.com/api/webhook', {
+      method: 'POST',
+      body,
+      headers: { 'x-webhook-signature': sign(body) },
+    }),
+  );
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), {
+    revalidated: ['/blog/hello', '/blog'],
+    submitted: ['https://example.com/blog/hello', 'https://example.com/blog'],
+    errors: [],
+  });
+  assert.deepEqual(revalidated, ['/blog/hello', '/blog']);
+});
+
+test('createRevalidationWebhookRoute answers with a 500 when revalidation or the notification fails', async () => {
+  const body = JSON.stringify({ slug: 'hello' });
+  const request = () =>
+    new Request('https://example.com/api/webhook', {
+      method: 'POST',
+      body,
+      headers: { 'x-webhook-signature': sign(body) },
+    });
+
+  const failingRevalidate = createRevalidationWebhookRoute({
+    secret: SECRET,
+    baseUrl: 'https://example.com',
+    engines: ['indexnow'],
+    dryRun: true,
+    getTargets: () => ['/blog/hello', 'https://'],
+    revalidate: () => {},
+  });
+  const revalidateResponse = await failingRevalidate(request());
+  assert.equal(revalidateResponse.status, 500);
+  assert.match((await revalidateResponse.json()).error, /^Failed to revalidate the paths: /);
+
+  const failingNotify = createRevalidationWebhookRoute({
+    secret: SECRET,
+    baseUrl: 'not a url',
+    engines: ['indexnow'],
+    dryRun: true,
+    getTargets: () => ['/blog/hello'],
+    revalidate: () => {},
+  });
+  const notifyResponse = await failingNotify(request());
+  assert.equal(notifyResponse.status, 500);
+  assert.deepEqual(await notifyResponse.json(), {
+    error: 'Failed to notify search engines: Invalid URL',
+    revalidated: ['/blog/hello'],
+  });
+});
@@ -0,0 +1,156 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { notifySearchEngines } from './notify';
+import type { NotificationType, NotifySearchEnginesOptions, NotifySearchEnginesResult } from './notify';
+
+/** Header that carries the HMAC signature unless `signatureHeader` is set. */
+export const DEFAULT_SIGNATURE_HEADER = 'x-webhook-signature';
+
+export type WebhookSignatureAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+/**
+ * Pages to revalidate and submit for a webhook. Return a list of paths or URLs, or an object to also choose
+ * the notification type (for example `deleted` when an entry was unpublished).
+ */
+export type WebhookTargets = string[] | { paths: string[]; type?: NotificationType };
+
+export interface RevalidationWebhookOptions extends Omit<NotifySearchEnginesOptions, 'type'> {
+  /**
+   * Shared secret used to sign the request body. Defaults to the `INDEXING_WEBHOOK_SECRET` environment variable.
+   */
+  secret?: string;
+  /**
+   * Header that carries the hex encoded HMAC of the raw body, optionally prefixed with `sha256=`.
+   * Defaults to `x-webhook-signature`.
+   */
+  signatureHeader?: string;
+  /**
+   * HMAC digest algorithm. Defaults to `sha256`.
+   */
+  algorithm?: WebhookSignatureAlgorithm;
+  /**
+   * Maps the parsed JSON payload to the paths or URLs that changed. Return an empty list to ignore the event.
+   */
+  getTargets: (payload: any, request: Request) => WebhookTargets | Promise<WebhookTargets>;
+  /**
+   * Revalidates a single path. Defaults to `revalidatePath` from `next/cache`. Pass `false` to only submit.
+   */
+  revalidate?: ((path: string) => void | Promise<void>) | false;
+}
+
+export interface RevalidationWebhookResponseBody {
+  revalidated: string[];
+  submitted: string[];
+  errors: NotifySearchEnginesResult['errors'];
+}
+
+/**
+ * Checks a hex encoded HMAC signature of `body` in constant time. A `<algorithm>=` prefix (as sent by GitHub
+ * and several CMSs) is accepted.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null | undefined,
+  secret: string,
+  algorithm: WebhookSignatureAlgorithm = 'sha256',
+): boolean {
+  if (!signature) {
+    return false;
+  }
+  const provided = signature.trim().replace(new RegExp(`^${algorithm}=`, 'i'), '').toLowerCase();
+  const expected = createHmac(algorithm, secret).update(body, 'utf8').digest('hex');
+  if (provided.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(provided, 'utf8'), Buffer.from(expected, 'utf8'));
+}
+
+function toPath(target: string): string {
+  return /^https?:\/\//i.test(target) ? new URL(target).pathname : target.startsWith('/') ? target : `/${target}`;
+}
+
+async function defaultRevalidate(path: string): Promise<void> {
+  const { revalidatePath } = await import('next/cache');
+  revalidatePath(path);
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Creates an App Router route handler for CMS webhooks. The request body is verified against an HMAC signature,
+ * mapped to paths with `getTargets`, revalidated and submitted with `notifySearchEngines`:
+ *
+ * ```ts
+ * // app/api/indexing-webhook/route.ts
+ * export const POST = createRevalidationWebhookRoute({
+ *   getTargets: (payload) => [`/blog/${payload.entry.slug}`],
+ * });
+ * ```
+ */
+export function createRevalidationWebhookRoute(
+  options: RevalidationWebhookOptions,
+): (request: Request) => Promise<Response> {
+  const {
+    secret: secretOption,
+    signatureHeader = DEFAULT_SIGNATURE_HEADER,
+    algorithm = 'sha256',
+    getTargets,
+    revalidate = defaultRevalidate,
+    ...notifyOptions
+  } = options;
+
+  return async function POST(request) {
+    const secret = secretOption ?? process.env.INDEXING_WEBHOOK_SECRET;
+    if (!secret) {
+      return jsonResponse({ error: 'Webhook secret is not configured.' }, 500);
+    }
+    const body = await request.text();
+    if (!verifyWebhookSignature(body, request.headers.get(signatureHeader), secret, algorithm)) {
+      return jsonResponse({ error: 'Invalid signature.' }, 401);
+    }
+
+    let payload: unknown;
+    try {
+      payload = body ? JSON.parse(body) : {};
+    } catch {
+      return jsonResponse({ error: 'Request body must be JSON.' }, 400);
+    }
+
+    let targets: WebhookTargets;
+    try {
+      targets = await getTargets(payload, request);
+    } catch (error: any) {
+      return jsonResponse({ error: `Failed to map the payload to URLs: ${error?.message ?? error}` }, 500);
+    }
+    const paths = Array.isArray(targets) ? targets : targets.paths;
+    const type = Array.isArray(targets) ? undefined : targets.type;
+
+    const revalidated: string[] = [];
+    if (revalidate) {
+      try {
+        for (const target of new Set(paths.map(toPath))) {
+          await revalidate(target);
+          revalidated.push(target);
+        }
+      } catch (error: any) {
+        return jsonResponse({ error: `Failed to revalidate the paths: ${error?.message ?? error}`, revalidated }, 500);
+      }
+    }
+
+    let result: Pick<NotifySearchEnginesResult, 'urls' | 'errors'> = { urls: [], errors: [] };
+    if (paths.length) {
+      try {
+        result = await notifySearchEngines(paths, { ...notifyOptions, type });
+      } catch (error: any) {
+        return jsonResponse({ error: `Failed to notify search engines: ${error?.message ?? error}`, revalidated }, 500);
+      }
+    }
+    const responseBody: RevalidationWebhookResponseBody = {
+      revalidated,
+      submitted: result.urls,
+      errors: result.errors,
+    };
+    return jsonResponse(responseBody, 200);
+  };
+}
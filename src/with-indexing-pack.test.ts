@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createSubmitArgs, getSkipReason, withIndexingPack } from './with-indexing-pack';
+
+test('getSkipReason skips disabled, development and preview builds', () => {
+  assert.equal(getSkipReason({}, { NODE_ENV: 'production' }), undefined);
+  assert.match(getSkipReason({ enabled: false }, { NODE_ENV: 'production' }) ?? '', /disabled/);
+  assert.match(getSkipReason({}, { NODE_ENV: 'development' }) ?? '', /development/);
+  assert.match(getSkipReason({}, { NODE_ENV: 'production', VERCEL_ENV: 'preview' }) ?? '', /preview/);
+  assert.match(getSkipReason({}, { NODE_ENV: 'production', CONTEXT: 'deploy-preview' }) ?? '', /preview/);
+  assert.equal(getSkipReason({ preview: true }, { NODE_ENV: 'production', VERCEL_ENV: 'preview' }), undefined);
+});
+
+test('createSubmitArgs maps the plugin options to CLI flags', () => {
+  assert.deepEqual(
+    createSubmitArgs(
+      { baseUrl: 'https://example.com', engines: ['google'], dryRun: true, changedOnly: true, stateFile: 'state.json' },
+      'build',
+    ),
+    [
+      'submit',
+      '--next-build-dir',
+      'build',
+      '--base-url',
+      'https://example.com',
+      '--google',
+      '--dry-run',
+      '--changed-only',
+      '--state-file',
+      'state.json',
+    ],
+  );
+  assert.deepEqual(createSubmitArgs({ engines: ['indexnow', 'google'] }, '.next'), [
+    'submit',
+    '--next-build-dir',
+    '.next',
+  ]);
+  assert.deepEqual(createSubmitArgs({}, '.next', 'out'), ['submit', '--next-build-dir', '.next', '--export-dir', 'out']);
+  assert.deepEqual(createSubmitArgs({ site: 'docs' }, '.next'), ['submit', '--next-build-dir', '.next', '--site', 'docs']);
+  assert.deepEqual(createSubmitArgs({ changedOnly: true, notifyRemoved: false }, '.next'), [
+    'submit',
+    '--next-build-dir',
+    '.next',
+    '--changed-only',
+    '--no-notify-removed',
+  ]);
+});
+
+test('withIndexingPack resolves config objects and functions without changing them', async (t) => {
+  const previousMarker = process.env.NEXTJS_INDEXING_PACK_BUILD_PID;
+  t.after(() => {
+    if (previousMarker === undefined) {
+      delete process.env.NEXTJS_INDEXING_PACK_BUILD_PID;
+    } else {
+      process.env.NEXTJS_INDEXING_PACK_BUILD_PID = previousMarker;
+    }
+  });
+  const context = { defaultConfig: {} };
+  const exitListeners = process.listenerCount('exit');
+
+  const fromObject = withIndexingPack({ reactStrictMode: true });
+  assert.deepEqual(await fromObject('phase-development-server', context), { reactStrictMode: true });
+
+  const phases: string[] = [];
+  const fromFunction = withIndexingPack(
+    (phase) => {
+      phases.push(phase);
+      return { distDir: 'build' };
+    },
+    { enabled: false },
+  );
+  assert.deepEqual(await fromFunction('phase-production-build', context), { distDir: 'build' });
+  assert.deepEqual(phases, ['phase-production-build']);
+  // A disabled plugin never registers the post-build submission.
+  assert.equal(process.listenerCount('exit'), exitListeners);
+});
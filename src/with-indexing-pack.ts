@@ -0,0 +1,198 @@
+import { spawnSync } from 'node:child_process';
+import { statSync } from 'node:fs';
+import path from 'node:path';
+import type { NextConfig } from 'next';
+
+// Mirrors PHASE_PRODUCTION_BUILD from next/constants without loading Next.js at runtime.
+const PHASE_PRODUCTION_BUILD = 'phase-production-build';
+
+// Next.js loads the config again in its build workers. The main build process marks itself through this variable
+// so that workers, which inherit the environment, do not register a second submission.
+const BUILD_PROCESS_ENV = 'NEXTJS_INDEXING_PACK_BUILD_PID';
+
+type NextConfigFunction = (
+  phase: string,
+  context: { defaultConfig: NextConfig },
+) => NextConfig | Promise<NextConfig>;
+
+export interface WithIndexingPackOptions {
+  /**
+   * Set to false to never submit after a build. Defaults to true.
+   */
+  enabled?: boolean;
+  /**
+   * Collect URLs after the build without submitting them.
+   */
+  dryRun?: boolean;
+  /**
+   * Submit from preview deployments (`VERCEL_ENV=preview` or a Netlify deploy preview/branch deploy).
+   * Defaults to false.
+   */
+  preview?: boolean;
+  /**
+   * Fully qualified base URL of the site. Defaults to `baseUrl` from the config file.
+   */
+  baseUrl?: string;
+  /**
+   * Services to submit to. Defaults to both IndexNow and the Google Indexing API.
+   */
+  engines?: Array<'indexnow' | 'google'>;
+  /**
+   * Submit only routes that are new or whose built output changed since the last run.
+   */
+  changedOnly?: boolean;
+  /**
+   * Notify search engines about routes that disappeared since the previous build. Defaults to `changedOnly`;
+   * pass `false` to turn it off for changed-only builds.
+   */
+  notifyRemoved?: boolean;
+  /**
+   * Read URLs from this sitemap instead of the build manifests.
+   */
+  sitemap?: string;
+  /**
+   * Path to Google service account JSON credentials. Defaults to the same lookup as the CLI.
+   */
+  googleServiceAccount?: string;
+  /**
+   * Location of the submission state file. Defaults to `.nextjs-indexing-pack/state.json`.
+   */
+  stateFile?: string;
+  /**
+   * nextjs-indexing-pack config file to use instead of the one in the project root.
+   */
+  config?: string;
+  /**
+   * Site of a multi-site config that this app belongs to.
+   */
+  site?: string;
+}
+
+/**
+ * Returns why the submission should be skipped for the current environment, or undefined when it should run.
+ */
+export function getSkipReason(
+  options: WithIndexingPackOptions,
+  env: NodeJS.ProcessEnv = process.env,
+): string | undefined {
+  if (options.enabled === false) {
+    return 'disabled in next.config.js';
+  }
+  if (env.NODE_ENV === 'development') {
+    return 'development build';
+  }
+  const isPreview =
+    env.VERCEL_ENV === 'preview' || env.CONTEXT === 'deploy-preview' || env.CONTEXT === 'branch-deploy';
+  if (isPreview && !options.preview) {
+    return 'preview deployment (set `preview: true` to submit from previews)';
+  }
+  return undefined;
+}
+
+/**
+ * Builds the CLI arguments used to submit once the build output is complete. `exportDir` is set for static exports.
+ */
+export function createSubmitArgs(options: WithIndexingPackOptions, nextBuildDir: string, exportDir?: string): string[] {
+  const args = ['submit', '--next-build-dir', nextBuildDir];
+  if (exportDir) {
+    args.push('--export-dir', exportDir);
+  }
+  if (options.baseUrl) {
+    args.push('--base-url', options.baseUrl);
+  }
+  if (options.engines?.length === 1) {
+    args.push(options.engines[0] === 'google' ? '--google' : '--indexnow');
+  }
+  if (options.dryRun) {
+    args.push('--dry-run');
+  }
+  if (options.changedOnly) {
+    args.push('--changed-only');
+  }
+  if (options.notifyRemoved !== undefined) {
+    args.push(options.notifyRemoved ? '--notify-removed' : '--no-notify-removed');
+  }
+  if (options.sitemap) {
+    args.push('--sitemap', options.sitemap);
+  }
+  if (options.googleServiceAccount) {
+    args.push('--google-service-account', options.googleServiceAccount);
+  }
+  if (options.stateFile) {
+    args.push('--state-file', options.stateFile);
+  }
+  if (options.config) {
+    args.push('--config', options.config);
+  }
+  if (options.site) {
+    args.push('--site', options.site);
+  }
+  return args;
+}
+
+function readMtime(filePath: string): number | undefined {
+  try {
+    return statSync(filePath).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+function registerSubmission(options: WithIndexingPackOptions, distDir: string, exportDir?: string): void {
+  const buildIdPath = path.resolve(distDir, 'BUILD_ID');
+  const startedAt = Date.now();
+
+  // `next build` calls process.exit() once the output is complete, so the submission runs synchronously from the
+  // exit handler in a child process.
+  process.once('exit', (code) => {
+    const buildIdMtime = readMtime(buildIdPath);
+    if (code !== 0 || buildIdMtime === undefined || buildIdMtime < startedAt) {
+      return;
+    }
+    console.log('\nnextjs-indexing-pack: submitting URLs from the completed build...');
+    const cliPath = path.join(__dirname, 'cli.js');
+    const result = spawnSync(process.execPath, [cliPath, ...createSubmitArgs(options, distDir, exportDir)], {
+      stdio: 'inherit',
+      env: process.env,
+    });
+    if (result.error || result.status !== 0) {
+      const reason = result.error ? ` (${result.error.message})` : '';
+      console.warn(`nextjs-indexing-pack: submission failed${reason}. The build output is unaffected.`);
+    }
+  });
+}
+
+/**
+ * Wraps a Next.js config so that the discovered URLs are submitted once `next build` completes:
+ *
+ * ```js
+ * // next.config.js
+ * const { withIndexingPack } = require('nextjs-indexing-pack');
+ * module.exports = withIndexingPack({ reactStrictMode: true }, { changedOnly: true });
+ * ```
+ *
+ * Only production builds submit; `next dev` and preview deployments are skipped.
+ */
+export function withIndexingPack(
+  nextConfig: NextConfig | NextConfigFunction = {},
+  options: WithIndexingPackOptions = {},
+): NextConfigFunction {
+  return async (phase, context) => {
+    const resolvedConfig = typeof nextConfig === 'function' ? await nextConfig(phase, context) : nextConfig;
+    // Skip other phases, and config loads in this process or a build worker after the first one.
+    if (phase !== PHASE_PRODUCTION_BUILD || process.env[BUILD_PROCESS_ENV]) {
+      return resolvedConfig;
+    }
+    process.env[BUILD_PROCESS_ENV] = String(process.pid);
+
+    const skipReason = getSkipReason(options);
+    if (skipReason) {
+      console.log(`nextjs-indexing-pack: skipping submission after build (${skipReason}).`);
+      return resolvedConfig;
+    }
+    // `output: 'export'` writes the pages to `out`, where they are discovered instead of from the manifests.
+    const exportDir = resolvedConfig.output === 'export' ? 'out' : undefined;
+    registerSubmission(options, resolvedConfig.distDir ?? '.next', exportDir);
+    return resolvedConfig;
+  };
+}